@@ -9,6 +9,13 @@ import {
 } from "./listeners/flowCaptureListener";
 import { viewFlowHandler, jumpToCodeHandler } from "./listeners/flowInteractionListener";
 import { traceFlowHandler } from "./listeners/codeTraceListener";
+import {
+  captureHttpRouteHandler,
+  captureCommandHandler,
+} from "./listeners/entryPointDiscoveryListener";
+import { generateFlowsForFolderHandler } from "./listeners/batchCaptureListener";
+import { migrateFlowStorageHandler } from "./listeners/storageMigrationListener";
+import { restoreFlowsBackupHandler, salvageFlowsHandler } from "./listeners/flowRecoveryListener";
 import {
   exportFlowSVGHandler,
   exportFlowPNGHandler,
@@ -16,7 +23,9 @@ import {
 } from "./listeners/exportListener";
 import { FlowStorageService } from "./listeners/flowStorageService";
 import { AstService } from "./utilities/astService";
+import { CodeIndexService } from "./utilities/codeIndexService";
 import { Logger } from "./utilities/logger";
+import { CodeAnchor } from "./types/flowTypes";
 
 let flowCaptureService: FlowCaptureService;
 
@@ -24,7 +33,9 @@ export function activate(context: vscode.ExtensionContext) {
   Logger.init(context);
   Logger.log("Flow Master extension is now active!");
 
-  const astService = new AstService();
+  const codeIndexService = new CodeIndexService();
+  context.subscriptions.push(codeIndexService);
+  const astService = new AstService(codeIndexService);
   const flowStorageService = new FlowStorageService(context);
   flowCaptureService = new FlowCaptureService(context, astService, flowStorageService);
 
@@ -62,7 +73,8 @@ export function activate(context: vscode.ExtensionContext) {
     ),
     vscode.commands.registerCommand(
       "flowMaster.jumpToCode",
-      (filePath: string, range: vscode.Range) => jumpToCodeHandler(filePath, range)
+      (filePath: string, range: vscode.Range, anchor?: CodeAnchor, flowId?: string) =>
+        jumpToCodeHandler(filePath, range, anchor, flowId, flowStorageService)
     ),
     vscode.commands.registerCommand("flowMaster.traceFlow", (flowId?: string) =>
       traceFlowHandler(context, flowId, flowStorageService)
@@ -76,18 +88,55 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand("flowMaster.exportFlowMarkdown", (flowId?: string) =>
       exportFlowMarkdownHandler(flowId, flowStorageService, graphViewProvider)
     ),
-    vscode.commands.registerCommand("flowMaster.refreshFlowList", () => flowListProvider.refresh())
+    vscode.commands.registerCommand("flowMaster.captureHttpRoute", () =>
+      captureHttpRouteHandler(astService, flowStorageService, graphViewProvider, flowListProvider)
+    ),
+    vscode.commands.registerCommand("flowMaster.captureCommand", () =>
+      captureCommandHandler(astService, flowStorageService, graphViewProvider, flowListProvider)
+    ),
+    vscode.commands.registerCommand("flowMaster.generateFlowsForFolder", (folderUri?: vscode.Uri) =>
+      generateFlowsForFolderHandler(folderUri, astService, flowStorageService, flowListProvider)
+    ),
+    vscode.commands.registerCommand("flowMaster.migrateFlowStorage", () =>
+      migrateFlowStorageHandler(flowStorageService, flowListProvider)
+    ),
+    vscode.commands.registerCommand("flowMaster.restoreFlowsBackup", (filePath?: string) =>
+      restoreFlowsBackupHandler(filePath, flowStorageService, flowListProvider)
+    ),
+    vscode.commands.registerCommand("flowMaster.salvageFlows", (filePath?: string) =>
+      salvageFlowsHandler(filePath, flowStorageService, flowListProvider)
+    ),
+    vscode.commands.registerCommand("flowMaster.refreshFlowList", () => flowListProvider.refresh()),
+    vscode.commands.registerCommand("flowMaster.rebuildIndex", () => codeIndexService.rebuild()),
+    vscode.commands.registerCommand("flowMaster.cancelIndexing", () => codeIndexService.cancel())
   );
   Logger.log("Commands registered.");
 
-  // Listen to configuration changes for the shared flows file
+  // Listen to configuration changes for the shared flows file and how flows are stored
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((e) => {
-      if (e.affectsConfiguration("flowMaster.sharedFlowsFile")) {
+      if (
+        e.affectsConfiguration("flowMaster.sharedFlowsFile") ||
+        e.affectsConfiguration("flowMaster.storageMode")
+      ) {
         flowStorageService.updateFlowsFilePath();
         flowListProvider.refresh();
         // Potentially notify webview if it's open and displaying a flow from the old path
       }
+      if (
+        e.affectsConfiguration("flowMaster.index.enabled") ||
+        e.affectsConfiguration("flowMaster.capture.excludePaths")
+      ) {
+        codeIndexService.rebuild();
+      }
+    })
+  );
+
+  // Each workspace folder has its own flows file
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      flowStorageService.updateFlowsFilePath();
+      flowListProvider.refresh();
     })
   );
 
@@ -95,6 +144,18 @@ export function activate(context: vscode.ExtensionContext) {
   flowStorageService.createFlowsFileWatcher(flowListProvider);
   Logger.log("Flows file watcher created.");
 
+  // Reload the capture projects when a tsconfig.json/jsconfig.json changes
+  const projectConfigWatcher = vscode.workspace.createFileSystemWatcher(
+    "**/{tsconfig,jsconfig}.json"
+  );
+  projectConfigWatcher.onDidChange(() => astService.resetProjects());
+  projectConfigWatcher.onDidCreate(() => astService.resetProjects());
+  projectConfigWatcher.onDidDelete(() => astService.resetProjects());
+  context.subscriptions.push(projectConfigWatcher);
+
+  // Index the workspace in the background, captures use it once it's built
+  codeIndexService.rebuild();
+
   // Set initial context for when flow can be saved
   vscode.commands.executeCommand("setContext", "flowMaster.canSaveFlow", false);
 }
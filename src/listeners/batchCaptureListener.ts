@@ -0,0 +1,173 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { AstService, ExportedFunction } from "../utilities/astService";
+import { FlowStorageService, FlowsReadOnlyError } from "./flowStorageService";
+import { FlowListProvider } from "../providers/FlowListProvider";
+import { CapturedFlow } from "../types/flowTypes";
+import { Logger } from "../utilities/logger";
+
+interface BatchReport {
+  folderName: string;
+  generated: string[];
+  skipped: string[]; // Entry points that already had a flow
+  failed: string[];
+  cancelled: boolean;
+  saveError?: string; // Why the generated flows couldn't be saved
+}
+
+export const generateFlowsForFolderHandler = async (
+  folderUri: vscode.Uri | undefined, // Set when run from the explorer context menu
+  astService: AstService,
+  flowStorageService: FlowStorageService,
+  flowListProvider: FlowListProvider
+) => {
+  if (!folderUri) {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+      openLabel: "Generate Flows",
+    });
+    if (!picked || picked.length === 0) {
+      return; // User cancelled
+    }
+    folderUri = picked[0];
+  }
+  const folder = folderUri;
+  const folderName = path.basename(folder.fsPath);
+
+  const existingFlows = await flowStorageService.getAllFlows();
+  // Reading the flows finds the damaged files, which would make the whole run fail to save
+  const damagedFiles = flowStorageService.damagedFiles;
+  if (damagedFiles.length > 0) {
+    flowStorageService.showReadOnlyError(new FlowsReadOnlyError(damagedFiles));
+    return;
+  }
+  // Methods of different classes may share a name and file: the flow must be anchored to the same
+  // class and method, or start at the entry's line when it has no symbol path
+  const hasFlow = (entry: ExportedFunction) =>
+    existingFlows.some((flow) => {
+      const startPin = flow.startPin;
+      if (
+        startPin?.identifier !== entry.name ||
+        path.normalize(startPin.filePath) !== path.normalize(entry.filePath)
+      ) {
+        return false;
+      }
+      const symbolPath = startPin.anchor?.symbolPath ?? [];
+      if (symbolPath.length > 0) {
+        const nameParts = entry.qualifiedName.split(".");
+        return symbolPath.slice(-nameParts.length).join(".") === entry.qualifiedName;
+      }
+      const line = entry.line - 1; // 0-indexed, like the ranges
+      return startPin.range.start.line <= line && line <= startPin.range.end.line;
+    });
+
+  const report: BatchReport = {
+    folderName,
+    generated: [],
+    skipped: [],
+    failed: [],
+    cancelled: false,
+  };
+  const flows: Omit<CapturedFlow, "id" | "createdAt" | "updatedAt">[] = [];
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Flow Master: Generating flows for ${folderName}`,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      progress.report({ message: "Finding exported functions..." });
+      const entries = await astService.findExportedFunctions(folder, token);
+      for (let i = 0; i < entries.length && !token.isCancellationRequested; i++) {
+        const entry = entries[i];
+        const entryLabel = `${entry.qualifiedName} (${path.basename(entry.filePath)})`;
+        progress.report({
+          message: `${entry.qualifiedName} (${i + 1}/${entries.length})`,
+          increment: 100 / entries.length,
+        });
+        if (hasFlow(entry)) {
+          report.skipped.push(entryLabel);
+          continue;
+        }
+        try {
+          const { nodes, edges } = await astService.parseFunctionCalls(
+            entry.filePath,
+            entry.name,
+            entry.line
+          );
+          const entryReference = nodes[0]?.codeReference;
+          if (!entryReference) {
+            report.failed.push(entryLabel);
+            continue;
+          }
+          flows.push({
+            name: `Flow for ${entry.qualifiedName}`,
+            description: `Generated for ${entry.qualifiedName} in ${vscode.workspace.asRelativePath(
+              entry.filePath
+            )}.`,
+            category: "General",
+            tags: [folderName, path.basename(entry.filePath)],
+            startPin: { ...entryReference, identifier: entry.name },
+            nodes,
+            edges,
+            author: "Current User", // Placeholder, like flows saved from pins
+          });
+          report.generated.push(entryLabel);
+        } catch (error) {
+          Logger.error(`BatchCapture: Capturing ${entry.qualifiedName} failed.`, error);
+          report.failed.push(entryLabel);
+        }
+        // Let the progress notification and the cancel button update between captures
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      report.cancelled = token.isCancellationRequested;
+    }
+  );
+
+  // Flows generated before a cancellation are kept
+  if (flows.length > 0) {
+    try {
+      await flowStorageService.saveFlows(flows);
+      flowListProvider.refresh();
+    } catch (error: any) {
+      Logger.error(`BatchCapture: Saving the flows of ${folderName} failed.`, error);
+      flowStorageService.showReadOnlyError(error);
+      report.saveError = error.message;
+    }
+  }
+
+  const summary =
+    `Flow Master: ${report.cancelled ? "Cancelled. " : ""}Generated ${
+      report.generated.length
+    } flows for ${folderName}` +
+    (report.saveError ? ` but could not save them: ${report.saveError}` : "") +
+    (report.skipped.length > 0 ? `, skipped ${report.skipped.length} already captured` : "") +
+    (report.failed.length > 0 ? `, ${report.failed.length} failed` : "") +
+    ".";
+  const action = await vscode.window.showInformationMessage(summary, "Show Report");
+  if (action === "Show Report") {
+    const document = await vscode.workspace.openTextDocument({
+      language: "markdown",
+      content: formatReport(report),
+    });
+    await vscode.window.showTextDocument(document);
+  }
+};
+
+const formatReport = (report: BatchReport): string => {
+  const section = (title: string, entries: string[]) =>
+    entries.length > 0
+      ? `\n## ${title}\n\n${entries.map((entry) => `- ${entry}`).join("\n")}\n`
+      : "";
+  return (
+    `# Flows generated for ${report.folderName}\n\n` +
+    (report.cancelled ? "Generation was cancelled before every entry point was captured.\n" : "") +
+    (report.saveError ? `The generated flows could not be saved: ${report.saveError}\n` : "") +
+    section(`Generated (${report.generated.length})`, report.generated) +
+    section(`Skipped, a flow already exists (${report.skipped.length})`, report.skipped) +
+    section(`Failed (${report.failed.length})`, report.failed)
+  );
+};
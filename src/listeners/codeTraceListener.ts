@@ -1,7 +1,10 @@
 import * as vscode from "vscode";
 import { FlowStorageService } from "./flowStorageService";
-import { FlowNode } from "../types/flowTypes";
+import { CodeReference, FlowNode } from "../types/flowTypes";
 import { Logger } from "../utilities/logger";
+import { toDocumentPath, toDocumentUri } from "../utilities/documentPaths";
+import { resolveFlow } from "../utilities/codeAnchors";
+import { offerToUpdateMovedCode } from "./flowInteractionListener";
 
 let traceDecorations: vscode.TextEditorDecorationType[] = [];
 let currentTraceInterval: NodeJS.Timeout | undefined;
@@ -95,30 +98,48 @@ export const traceFlowHandler = async (
     }
   }
 
-  const flow = await flowStorageService.getFlowById(flowIdToTrace);
-  if (!flow || !flow.nodes || flow.nodes.length === 0) {
+  const storedFlow = await flowStorageService.getFlowById(flowIdToTrace);
+  if (!storedFlow || !storedFlow.nodes || storedFlow.nodes.length === 0) {
     vscode.window.showErrorMessage("Flow Master: Selected flow has no data to trace.");
     return;
   }
+  // Steps are highlighted where their code is now, and skipped when it's gone
+  const resolved = await resolveFlow(storedFlow);
+  const flow = resolved.flow;
+  offerToUpdateMovedCode(resolved, flowStorageService);
 
   Logger.log(`Starting trace for flow: ${flow.name}`);
   vscode.window.showInformationMessage(
-    `Starting trace for flow: ${flow.name}. Highlighting steps...`
+    `Starting trace for flow: ${flow.name}. Highlighting steps...` +
+      (resolved.staleNodeIds.length > 0
+        ? ` ${resolved.staleNodeIds.length} steps whose code was not found are skipped.`
+        : "")
   );
 
   // Simple sequential trace for now. A real tracer would follow edges and logic.
   let step = 0;
-  const sortedNodes = flow.nodes; // This should ideally be a topological sort or follow a main path from edges
+  const sortedNodes = flow.nodes
+    .filter((node) => !node.properties?.hidden && !node.properties?.stale) // This should ideally be a topological sort or follow a main path from edges
+    // A merged call is stepped through once per call it stands for
+    .flatMap((node): FlowNode[] =>
+      node.properties?.occurrences
+        ? node.properties.occurrences.map((codeReference: CodeReference) => ({
+            ...node,
+            codeReference,
+          }))
+        : [node]
+    );
 
   // Find the active editor or open the first relevant file
   let currentEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
   if (
     sortedNodes[0]?.codeReference &&
-    (!currentEditor || currentEditor.document.uri.fsPath !== sortedNodes[0].codeReference.filePath)
+    (!currentEditor ||
+      toDocumentPath(currentEditor.document.uri) !== sortedNodes[0].codeReference.filePath)
   ) {
     try {
       const doc = await vscode.workspace.openTextDocument(
-        vscode.Uri.file(sortedNodes[0].codeReference.filePath)
+        toDocumentUri(sortedNodes[0].codeReference.filePath)
       );
       currentEditor = await vscode.window.showTextDocument(doc);
     } catch (e) {
@@ -140,11 +161,14 @@ export const traceFlowHandler = async (
     }
 
     const node = sortedNodes[step];
-    if (node.codeReference && currentEditor?.document.uri.fsPath !== node.codeReference.filePath) {
+    if (
+      node.codeReference &&
+      (!currentEditor || toDocumentPath(currentEditor.document.uri) !== node.codeReference.filePath)
+    ) {
       // Switch editor if node is in a different file
       try {
         const doc = await vscode.workspace.openTextDocument(
-          vscode.Uri.file(node.codeReference.filePath)
+          toDocumentUri(node.codeReference.filePath)
         );
         currentEditor = await vscode.window.showTextDocument(doc, {
           preview: false,
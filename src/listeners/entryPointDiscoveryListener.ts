@@ -0,0 +1,210 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { AstService, HttpRoute, RegisteredCommand } from "../utilities/astService";
+import { FlowStorageService } from "./flowStorageService";
+import { GraphViewProvider } from "../providers/GraphViewProvider";
+import { FlowListProvider } from "../providers/FlowListProvider";
+import { CapturedFlow, CodeReference, FlowEdge, FlowNode } from "../types/flowTypes";
+import { Logger } from "../utilities/logger";
+
+// A command as contributed by an extension's package.json
+interface ManifestCommand {
+  title?: string;
+  menus: string[]; // Menu locations, e.g. `editor/context`
+}
+
+export const captureHttpRouteHandler = async (
+  astService: AstService,
+  flowStorageService: FlowStorageService,
+  graphViewProvider: GraphViewProvider,
+  flowListProvider: FlowListProvider
+) => {
+  const routes = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: "Flow Master: Finding HTTP routes" },
+    () => astService.findHttpRoutes()
+  );
+  if (routes.length === 0) {
+    vscode.window.showInformationMessage(
+      "Flow Master: No HTTP routes found. Express, Koa and Fastify route registrations and Next.js API routes are recognized."
+    );
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    routes.map((route) => ({
+      label: `${route.method} ${route.path}`,
+      description: describeLocation(route.codeReference),
+      route,
+    })),
+    { placeHolder: "Select an HTTP route to capture", matchOnDescription: true }
+  );
+  if (!picked) {
+    return; // User cancelled
+  }
+
+  const route: HttpRoute = picked.route;
+  const { nodes, edges } = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: `Flow Master: Capturing ${picked.label}` },
+    () => astService.parseHttpRoute(route)
+  );
+  await saveDiscoveredFlow(
+    { name: picked.label, category: "API Call", startPin: route.codeReference, nodes, edges },
+    flowStorageService,
+    graphViewProvider,
+    flowListProvider
+  );
+};
+
+export const captureCommandHandler = async (
+  astService: AstService,
+  flowStorageService: FlowStorageService,
+  graphViewProvider: GraphViewProvider,
+  flowListProvider: FlowListProvider
+) => {
+  const [registeredCommands, manifestCommands] = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: "Flow Master: Finding commands" },
+    () => Promise.all([astService.findRegisteredCommands(), readManifestCommands()])
+  );
+  const registrations = new Map<string, RegisteredCommand>();
+  registeredCommands.forEach((command) => registrations.set(command.id, command));
+  const commandIds = [...new Set([...registrations.keys(), ...manifestCommands.keys()])].sort();
+  if (commandIds.length === 0) {
+    vscode.window.showInformationMessage(
+      "Flow Master: No commands found. Commands are registered with vscode.commands.registerCommand and declared in package.json under contributes.commands."
+    );
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    commandIds.map((id) => {
+      const registration = registrations.get(id);
+      const declaration = manifestCommands.get(id);
+      const problem = !registration
+        ? "Declared in package.json but never registered"
+        : !declaration
+        ? "Registered but not declared in package.json"
+        : undefined;
+      const details = [
+        problem,
+        declaration && declaration.menus.length > 0
+          ? `Menus: ${declaration.menus.join(", ")}`
+          : undefined,
+        registration ? describeLocation(registration.codeReference) : undefined,
+      ];
+      return {
+        label: problem ? `$(warning) ${id}` : id,
+        description: declaration?.title,
+        detail: details.filter((detail) => detail).join(" · "),
+        id,
+        title: declaration?.title,
+        registration,
+      };
+    }),
+    { placeHolder: "Select a command to capture", matchOnDescription: true }
+  );
+  if (!picked) {
+    return; // User cancelled
+  }
+
+  const command = picked.registration;
+  if (!command) {
+    vscode.window.showWarningMessage(
+      `Flow Master: ${picked.id} is declared in package.json but never registered, so it has no handler to capture.`
+    );
+    return;
+  }
+  const { nodes, edges } = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: `Flow Master: Capturing ${picked.id}` },
+    () => astService.parseRegisteredCommand(command)
+  );
+  await saveDiscoveredFlow(
+    {
+      name: picked.title || picked.id,
+      category: "User Interaction",
+      startPin: command.codeReference,
+      nodes,
+      edges,
+    },
+    flowStorageService,
+    graphViewProvider,
+    flowListProvider
+  );
+};
+
+// Commands from the package.json of each workspace folder, keyed by command ID
+const readManifestCommands = async (): Promise<Map<string, ManifestCommand>> => {
+  const commands = new Map<string, ManifestCommand>();
+  const getCommand = (id: string) => {
+    const command = commands.get(id) || { menus: [] };
+    commands.set(id, command);
+    return command;
+  };
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    const manifestUri = vscode.Uri.joinPath(folder.uri, "package.json");
+    let contributes: any;
+    try {
+      const content = Buffer.from(await vscode.workspace.fs.readFile(manifestUri)).toString("utf8");
+      contributes = JSON.parse(content).contributes;
+    } catch (error) {
+      continue; // Not an extension, or no package.json at the root of this folder
+    }
+    (contributes?.commands || []).forEach((command: { command?: string; title?: string }) => {
+      if (typeof command.command === "string") {
+        getCommand(command.command).title = command.title;
+      }
+    });
+    Object.entries(contributes?.menus || {}).forEach(([menu, items]) => {
+      (Array.isArray(items) ? items : []).forEach((item: { command?: string }) => {
+        if (typeof item.command === "string") {
+          getCommand(item.command).menus.push(menu);
+        }
+      });
+    });
+  }
+  Logger.log(`EntryPointDiscovery: Found ${commands.size} commands in package.json.`);
+  return commands;
+};
+
+const describeLocation = (codeReference: CodeReference): string =>
+  `${path.basename(codeReference.filePath)}:${codeReference.range.start.line + 1}`;
+
+const saveDiscoveredFlow = async (
+  details: {
+    name: string;
+    category: CapturedFlow["category"];
+    startPin: CodeReference;
+    nodes: FlowNode[];
+    edges: FlowEdge[];
+  },
+  flowStorageService: FlowStorageService,
+  graphViewProvider: GraphViewProvider,
+  flowListProvider: FlowListProvider
+) => {
+  if (details.nodes.length === 0) {
+    vscode.window.showErrorMessage(
+      `Flow Master: Could not capture ${details.name}. The file may have changed, try again.`
+    );
+    return;
+  }
+  let savedFlow: CapturedFlow;
+  try {
+    savedFlow = await flowStorageService.saveFlow({
+      ...details,
+      description: "",
+      tags: [],
+      author: "Current User", // Placeholder, like flows saved from pins
+    });
+  } catch (error: any) {
+    if (!flowStorageService.showReadOnlyError(error)) {
+      Logger.error(`EntryPointDiscovery: Saving the flow of ${details.name} failed.`, error);
+      vscode.window.showErrorMessage(
+        `Flow Master: Could not save the flow of ${details.name}: ${error.message}`
+      );
+    }
+    return;
+  }
+  vscode.window.showInformationMessage(`Flow "${savedFlow.name}" saved.`);
+  flowListProvider.refresh();
+  await vscode.commands.executeCommand(`${GraphViewProvider.viewType}.focus`);
+  graphViewProvider.showFlow(savedFlow.id);
+};
@@ -4,6 +4,7 @@ import { FlowStorageService } from "./flowStorageService";
 import { CapturedFlow, CodeReference, FlowNode, FlowEdge } from "../types/flowTypes";
 import { v4 as uuidv4 } from "uuid";
 import { Logger } from "../utilities/logger";
+import { toDocumentPath } from "../utilities/documentPaths";
 import { GraphViewProvider } from "../providers/GraphViewProvider";
 import { FlowListProvider } from "../providers/FlowListProvider";
 
@@ -49,11 +50,11 @@ export class FlowCaptureService {
       return;
     }
     const identifier = await this.astService.getFunctionNameAtCursor(
-      editor.document.uri.fsPath,
+      toDocumentPath(editor.document.uri),
       editor.selection.active
     );
     this.startPin = {
-      filePath: editor.document.uri.fsPath,
+      filePath: toDocumentPath(editor.document.uri),
       position: editor.selection.active,
       selection: editor.selection,
       identifier: identifier,
@@ -74,11 +75,11 @@ export class FlowCaptureService {
       return;
     }
     const identifier = await this.astService.getFunctionNameAtCursor(
-      editor.document.uri.fsPath,
+      toDocumentPath(editor.document.uri),
       editor.selection.active
     );
     this.endPin = {
-      filePath: editor.document.uri.fsPath,
+      filePath: toDocumentPath(editor.document.uri),
       position: editor.selection.active,
       selection: editor.selection,
       identifier: identifier,
@@ -126,25 +127,26 @@ export class FlowCaptureService {
         parsedData = await this.astService.parseFunctionCalls(
           this.startPin.filePath,
           undefined, // No single function name, parse range
-          this.startPin.selection.start.line + 1,
-          this.endPin.selection.end.line + 1
+          undefined,
+          {
+            start: {
+              line: this.startPin.selection.start.line,
+              character: this.startPin.selection.start.character,
+            },
+            end: {
+              line: this.endPin.selection.end.line,
+              character: this.endPin.selection.end.character,
+            },
+          }
         );
       } else {
-        // More complex: different files or non-linear selection.
-        // For now, we can parse the start pin's function and then the end pin's function separately,
-        // and the user can manually link them or we can attempt a smarter connection later.
-        // This part needs significant expansion for true multi-file/complex range analysis.
-        vscode.window.showWarningMessage(
-          "Flow Master: Cross-file or complex range capture is currently limited. Capturing start pin's context."
-        );
-        flowName = `Flow starting at ${
-          this.startPin.identifier || path.basename(this.startPin.filePath)
-        }`;
-        parsedData = await this.astService.parseFunctionCalls(
-          this.startPin.filePath,
-          this.startPin.identifier, // Parse the function at start pin
-          this.startPin.selection.start.line + 1
-        );
+        // Different files or non-linear selection: search the call graph from the start pin's
+        // function for the call paths that reach the end pin's function.
+        parsedData = await this.capturePathsBetweenPins(this.startPin, this.endPin);
+        if (!parsedData) {
+          return undefined;
+        }
+        flowName = `Flow from ${this.startPin.identifier} to ${this.endPin.identifier}`;
       }
     } else if (this.startPin) {
       // Only start pin is set
@@ -198,6 +200,70 @@ export class FlowCaptureService {
     };
   }
 
+  private async capturePathsBetweenPins(
+    startPin: Pin,
+    endPin: Pin
+  ): Promise<{ nodes: FlowNode[]; edges: FlowEdge[] } | undefined> {
+    if (!startPin.identifier || !endPin.identifier) {
+      vscode.window.showWarningMessage(
+        `Flow Master: Pins in different files must both be placed inside a function to search for a call path. The ${
+          startPin.identifier ? "end" : "start"
+        } pin is not inside a named function.`
+      );
+      return undefined;
+    }
+
+    const paths = await this.astService.findCallPaths(
+      startPin.filePath,
+      startPin.identifier,
+      startPin.selection.start.line + 1,
+      endPin.filePath,
+      endPin.identifier,
+      endPin.selection.end.line + 1
+    );
+    if (paths.targetNodeIds.length === 0) {
+      const knownCallers = this.astService.getKnownCallers(endPin.identifier);
+      vscode.window.showWarningMessage(
+        `Flow Master: No call path found from "${startPin.identifier}" (${path.basename(
+          startPin.filePath
+        )}) to "${endPin.identifier}" (${path.basename(endPin.filePath)}). ` +
+          `The end function may only be reached through dynamic calls, through files excluded by "flowMaster.capture.excludePaths", ` +
+          `or more than "flowMaster.capture.maxPathSearchDepth" calls deep.` +
+          (knownCallers.length > 0
+            ? ` It is called from: ${knownCallers.slice(0, 5).join(", ")}${
+                knownCallers.length > 5 ? ", ..." : ""
+              }.`
+            : "")
+      );
+      return undefined;
+    }
+
+    // The end pin becomes the exit of every path that reached its function
+    const exitNodeId = uuidv4();
+    const nodes: FlowNode[] = [
+      ...paths.nodes,
+      {
+        id: exitNodeId,
+        label: endPin.identifier,
+        type: "ExitPoint",
+        codeReference: this.createCodeReferenceFromPin(endPin),
+        description: `Selected exit for the flow.`,
+      },
+    ];
+    const edges: FlowEdge[] = [
+      ...paths.edges,
+      ...paths.targetNodeIds.map(
+        (targetNodeId): FlowEdge => ({
+          id: uuidv4(),
+          from: targetNodeId,
+          to: exitNodeId,
+          type: "DirectCall",
+        })
+      ),
+    ];
+    return { nodes, edges };
+  }
+
   public clearPins() {
     this.startPin = undefined;
     this.endPin = undefined;
@@ -229,7 +295,17 @@ export class FlowCaptureService {
       author: "Current User", // Placeholder, could get git username or VSCode user
     };
 
-    const savedFlow = await this.storageService.saveFlow(flowToSave);
+    let savedFlow: CapturedFlow;
+    try {
+      savedFlow = await this.storageService.saveFlow(flowToSave);
+    } catch (error: any) {
+      // The pins are kept, so the flow can be saved again once the flows file is repaired
+      if (!this.storageService.showReadOnlyError(error)) {
+        Logger.error("Error saving the flow:", error);
+        vscode.window.showErrorMessage(`Flow Master: Could not save the flow: ${error.message}`);
+      }
+      return;
+    }
     vscode.window.showInformationMessage(`Flow "${savedFlow.name}" saved.`);
     this.clearPins();
 
@@ -270,7 +346,10 @@ export const saveFlowHandler = async (
   }
 
   const capturedData = await flowCaptureService.captureFlow();
-  if (!capturedData || !capturedData.nodes || capturedData.nodes.length === 0) {
+  if (!capturedData) {
+    return; // captureFlow already told the user why; keep the pins so one can be moved
+  }
+  if (!capturedData.nodes || capturedData.nodes.length === 0) {
     vscode.window.showInformationMessage(
       "Flow Master: Could not capture a flow from the current selection or pins. Ensure the code is parsable and pins are set correctly."
     );
@@ -0,0 +1,145 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { createHash } from "crypto";
+import { Logger } from "../utilities/logger";
+
+// A copy of a flows file, kept by FlowBackups
+export interface FlowsBackup {
+  filePath: string;
+  createdAt: Date;
+}
+
+export async function readTextFile(filePath: string): Promise<string> {
+  const fileContent = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+  return Buffer.from(fileContent).toString("utf8");
+}
+
+/**
+ * Writes a file through a temporary file next to it, so a crash or a full disk in the middle of a
+ * save leaves either the old contents or the new ones, never half of them.
+ */
+export async function writeTextFile(filePath: string, text: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await vscode.workspace.fs.writeFile(vscode.Uri.file(tempPath), Buffer.from(text, "utf8"));
+  try {
+    await vscode.workspace.fs.rename(vscode.Uri.file(tempPath), vscode.Uri.file(filePath), {
+      overwrite: true,
+    });
+  } catch (error) {
+    await vscode.workspace.fs.delete(vscode.Uri.file(tempPath)).then(undefined, () => undefined);
+    throw error;
+  }
+}
+
+// Backups are named `<file name>.<time>.<hash>.bak`, the hash telling whether a version is kept
+const BACKUP_NAME = /^(.+)\.(\d{4}-\d\d-\d\dT\d\d-\d\d-\d\d-\d{3}Z)\.([0-9a-f]{8})\.bak$/;
+
+/**
+ * Keeps the last good versions of the flows files, see `flowMaster.backupCount`, so a file
+ * damaged by a bad merge or a hand edit can be restored.
+ */
+export class FlowBackups {
+  // The hash of the newest backup of each file name, read from the folder on first use
+  private latestHashes: Promise<Map<string, string>> | undefined;
+
+  constructor(public readonly folder: string) {}
+
+  private get count(): number {
+    return vscode.workspace.getConfiguration("flowMaster").get<number>("backupCount", 5);
+  }
+
+  /** Keeps a copy of a file that was just read successfully, unless that version is kept already. */
+  public async backUp(filePath: string, text: string): Promise<void> {
+    if (this.count <= 0) {
+      return;
+    }
+    const fileName = path.basename(filePath);
+    const hash = createHash("sha1").update(text).digest("hex").slice(0, 8);
+    const latestHashes = await this.getLatestHashes();
+    if (latestHashes.get(fileName) === hash) {
+      return;
+    }
+    latestHashes.set(fileName, hash);
+    try {
+      await vscode.workspace.fs.createDirectory(vscode.Uri.file(this.folder));
+      await writeTextFile(
+        path.join(this.folder, `${fileName}.${getTimestamp()}.${hash}.bak`),
+        text
+      );
+      await this.prune(fileName);
+    } catch (error) {
+      Logger.error(`Error backing up ${filePath}:`, error);
+    }
+  }
+
+  /** The backups of a file, newest first. */
+  public async list(filePath: string): Promise<FlowsBackup[]> {
+    const fileName = path.basename(filePath);
+    return (await this.readFolder())
+      .filter((backup) => backup.fileName === fileName)
+      .map((backup) => ({ filePath: backup.filePath, createdAt: backup.createdAt }));
+  }
+
+  /** Copies a damaged file into the backup folder before it is replaced, and returns the copy. */
+  public async keepDamagedCopy(filePath: string): Promise<string> {
+    const copyPath = path.join(this.folder, `${path.basename(filePath)}.${getTimestamp()}.damaged`);
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(this.folder));
+    await vscode.workspace.fs.copy(vscode.Uri.file(filePath), vscode.Uri.file(copyPath), {
+      overwrite: true,
+    });
+    return copyPath;
+  }
+
+  private async prune(fileName: string): Promise<void> {
+    const backups = (await this.readFolder()).filter((backup) => backup.fileName === fileName);
+    for (const backup of backups.slice(this.count)) {
+      await vscode.workspace.fs.delete(vscode.Uri.file(backup.filePath));
+    }
+  }
+
+  private getLatestHashes(): Promise<Map<string, string>> {
+    if (!this.latestHashes) {
+      this.latestHashes = this.readFolder().then((backups) => {
+        const latestHashes = new Map<string, string>();
+        for (const backup of backups) {
+          if (!latestHashes.has(backup.fileName)) {
+            latestHashes.set(backup.fileName, backup.hash);
+          }
+        }
+        return latestHashes;
+      });
+    }
+    return this.latestHashes;
+  }
+
+  // Every backup in the folder, newest first
+  private async readFolder() {
+    let entries: [string, vscode.FileType][] = [];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(this.folder));
+    } catch {
+      return []; // Nothing backed up yet
+    }
+    return entries
+      .map(([name]) => BACKUP_NAME.exec(name))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => ({
+        fileName: match[1],
+        filePath: path.join(this.folder, match[0]),
+        createdAt: parseTimestamp(match[2]),
+        hash: match[3],
+      }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
+
+// An ISO date usable in file names, e.g. 2024-05-01T10-20-30-000Z
+function getTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+function parseTimestamp(timestamp: string): Date {
+  const [, date, hours, minutes, seconds, milliseconds] =
+    /^(.+)T(\d\d)-(\d\d)-(\d\d)-(\d{3})Z$/.exec(timestamp)!;
+  return new Date(`${date}T${hours}:${minutes}:${seconds}.${milliseconds}Z`);
+}
@@ -1,7 +1,11 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import { GraphViewProvider } from "../providers/GraphViewProvider";
 import { FlowStorageService } from "./flowStorageService";
 import { Logger } from "../utilities/logger";
+import { toDocumentUri } from "../utilities/documentPaths";
+import { CodeAnchor } from "../types/flowTypes";
+import { ResolvedFlow, resolveFlow, resolveReference } from "../utilities/codeAnchors";
 
 export const viewFlowHandler = async (
   flowIdFromCommandOrEvent: string | undefined | { flow: { id: string } } | vscode.TreeItem, // Can come from command palette, tree item click, or other events
@@ -56,16 +60,41 @@ export const viewFlowHandler = async (
   }
 };
 
-export const jumpToCodeHandler = async (filePath: string, rangeData: any) => {
+export const jumpToCodeHandler = async (
+  filePath: string,
+  rangeData: any,
+  anchor?: CodeAnchor, // Follows the code when it moved since the flow was saved
+  flowId?: string, // The flow of the step, to offer to update it
+  flowStorageService?: FlowStorageService
+) => {
   try {
-    const uri = vscode.Uri.file(filePath);
+    let codeRange = rangeData;
+    if (anchor) {
+      const resolved = await resolveReference({ filePath, range: rangeData, anchor });
+      if (resolved.status === "moved") {
+        codeRange = resolved.reference.range;
+        Logger.log(`Code of ${filePath} moved to L${codeRange.start.line + 1}`);
+        const flow = flowId && (await flowStorageService?.getFlowById(flowId));
+        if (flow && flowStorageService) {
+          offerToUpdateMovedCode(await resolveFlow(flow), flowStorageService);
+        }
+      } else if (resolved.status === "stale") {
+        vscode.window.showWarningMessage(
+          `Flow Master: The code of this step was not found in ${path.basename(
+            filePath
+          )}. It was changed or removed since the flow was captured.`
+        );
+      }
+    }
+
+    const uri = toDocumentUri(filePath);
     const document = await vscode.workspace.openTextDocument(uri);
     const editor = await vscode.window.showTextDocument(document);
 
     // Ensure rangeData is in the correct vscode.Range format
     const range = new vscode.Range(
-      new vscode.Position(rangeData.start.line, rangeData.start.character),
-      new vscode.Position(rangeData.end.line, rangeData.end.character)
+      new vscode.Position(codeRange.start.line, codeRange.start.character),
+      new vscode.Position(codeRange.end.line, codeRange.end.character)
     );
 
     editor.selection = new vscode.Selection(range.start, range.end);
@@ -76,3 +105,35 @@ export const jumpToCodeHandler = async (filePath: string, rangeData: any) => {
     vscode.window.showErrorMessage(`Flow Master: Could not open or find file ${filePath}.`);
   }
 };
+
+/**
+ * Offers to store where the code of a flow moved to, once `resolveFlow` followed it. The stored
+ * flow is resolved again when accepted, in case it was edited in the meantime.
+ */
+export const offerToUpdateMovedCode = async (
+  resolved: ResolvedFlow,
+  flowStorageService: FlowStorageService
+) => {
+  if (resolved.movedCount === 0) {
+    return;
+  }
+  const answer = await vscode.window.showInformationMessage(
+    `Flow Master: The code of ${resolved.movedCount} steps of "${resolved.flow.name}" moved since the flow was saved.`,
+    "Update Flow"
+  );
+  if (answer !== "Update Flow") {
+    return;
+  }
+  try {
+    const flow = await flowStorageService.getFlowById(resolved.flow.id);
+    if (flow) {
+      await flowStorageService.updateFlow((await resolveFlow(flow)).flow);
+      vscode.commands.executeCommand("flowMaster.refreshFlowList");
+    }
+  } catch (error: any) {
+    if (!flowStorageService.showReadOnlyError(error)) {
+      Logger.error(`Error updating the code references of flow ${resolved.flow.id}:`, error);
+      vscode.window.showErrorMessage(`Flow Master: Could not update the flow: ${error.message}`);
+    }
+  }
+};
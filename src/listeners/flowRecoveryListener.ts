@@ -0,0 +1,126 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { FlowStorageService } from "./flowStorageService";
+import { FlowListProvider } from "../providers/FlowListProvider";
+import { Logger } from "../utilities/logger";
+
+// The file to repair: the one given by the notification, or one of the damaged files
+async function pickFlowsFile(
+  filePath: string | undefined,
+  candidates: string[]
+): Promise<string | undefined> {
+  if (filePath || candidates.length <= 1) {
+    return filePath ?? candidates[0];
+  }
+  const picked = await vscode.window.showQuickPick(
+    candidates.map((candidate) => ({
+      label: path.basename(candidate),
+      description: vscode.workspace.asRelativePath(candidate),
+      filePath: candidate,
+    })),
+    { placeHolder: "Select the flows file" }
+  );
+  return picked?.filePath;
+}
+
+export const restoreFlowsBackupHandler = async (
+  filePath: string | undefined,
+  flowStorageService: FlowStorageService,
+  flowListProvider: FlowListProvider
+) => {
+  // The shared flows files can be restored at any time, a file per flow once it's damaged
+  const damagedFiles = flowStorageService.damagedFiles.map((error) => error.filePath);
+  const candidates =
+    damagedFiles.length > 0
+      ? damagedFiles
+      : flowStorageService.workspaceFolders
+          .filter((folder) => flowStorageService.getStorageMode(folder) === "singleFile")
+          .map((folder) => flowStorageService.getStorageLocation(folder));
+  const fileToRestore = await pickFlowsFile(filePath, candidates);
+  if (!fileToRestore) {
+    vscode.window.showInformationMessage("Flow Master: No damaged flows file to restore.");
+    return;
+  }
+  const fileName = path.basename(fileToRestore);
+  const backups = await flowStorageService.listBackups(fileToRestore);
+  if (backups.length === 0) {
+    vscode.window.showWarningMessage(
+      `Flow Master: No backup of ${fileName} was found. Try "Salvage Valid Flows" instead.`
+    );
+    return;
+  }
+  const picked = await vscode.window.showQuickPick(
+    backups.map((backup, index) => ({
+      label: backup.createdAt.toLocaleString(),
+      description: index === 0 ? "Latest" : undefined,
+      backup,
+    })),
+    { placeHolder: `Restore ${fileName} from the backup of` }
+  );
+  if (!picked) {
+    return; // User cancelled
+  }
+  const confirmed = await vscode.window.showWarningMessage(
+    `Replace ${fileName} with its backup of ${picked.label}? Changes made since are lost.`,
+    { modal: true },
+    "Restore"
+  );
+  if (confirmed !== "Restore") {
+    return;
+  }
+  try {
+    const damagedCopy = await flowStorageService.restoreBackup(fileToRestore, picked.backup);
+    flowListProvider.refresh();
+    vscode.window.showInformationMessage(
+      `Flow Master: Restored ${fileName} from ${picked.label}.` +
+        (damagedCopy ? ` The damaged file was kept in ${damagedCopy}.` : "")
+    );
+  } catch (error: any) {
+    Logger.error(`Error restoring ${fileToRestore}:`, error);
+    vscode.window.showErrorMessage(
+      `Flow Master: Could not restore ${fileName}: ${error.message}. Check logs.`
+    );
+  }
+};
+
+export const salvageFlowsHandler = async (
+  filePath: string | undefined,
+  flowStorageService: FlowStorageService,
+  flowListProvider: FlowListProvider
+) => {
+  const damagedFiles = flowStorageService.damagedFiles.map((error) => error.filePath);
+  const fileToRepair = await pickFlowsFile(filePath, damagedFiles);
+  if (!fileToRepair) {
+    vscode.window.showInformationMessage("Flow Master: No damaged flows file to salvage.");
+    return;
+  }
+  const fileName = path.basename(fileToRepair);
+  try {
+    const flows = await flowStorageService.findSalvageableFlows(fileToRepair);
+    if (flows.length === 0) {
+      vscode.window.showWarningMessage(
+        `Flow Master: No complete flow could be read from ${fileName}. Try "Restore from Backup" instead.`
+      );
+      return;
+    }
+    const flowNames = flows.map((flow) => flow.name).join(", ");
+    const confirmed = await vscode.window.showWarningMessage(
+      `Replace ${fileName} with the ${flows.length} flows that could be read from it?`,
+      { modal: true, detail: `${flowNames}\n\nThe damaged file is kept with the backups.` },
+      "Salvage"
+    );
+    if (confirmed !== "Salvage") {
+      return;
+    }
+    const damagedCopy = await flowStorageService.repairFile(fileToRepair, flows);
+    flowListProvider.refresh();
+    vscode.window.showInformationMessage(
+      `Flow Master: Salvaged ${flows.length} flows from ${fileName}. The damaged file was kept in ${damagedCopy}.`
+    );
+  } catch (error: any) {
+    Logger.error(`Error salvaging the flows of ${fileToRepair}:`, error);
+    vscode.window.showErrorMessage(
+      `Flow Master: Could not salvage the flows of ${fileName}: ${error.message}. Check logs.`
+    );
+  }
+};
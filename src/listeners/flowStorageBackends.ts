@@ -0,0 +1,425 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ProjectFlows, CapturedFlow } from "../types/flowTypes";
+import { Logger } from "../utilities/logger";
+import {
+  FLOW_FILE_VERSION,
+  compareVersions,
+  upgradeProjectFlows,
+} from "../utilities/flowMigrations";
+import { FlowsFileError, NewerFlowsFileError, parseFlowsFile } from "../utilities/flowFileParsing";
+import { FlowPaths } from "../utilities/flowPaths";
+import { FlowBackups, readTextFile, writeTextFile } from "./flowFiles";
+
+// How flows are laid out on disk (see flowMaster.storageMode)
+export type StorageMode = "singleFile" | "filePerFlow";
+
+// Where a FlowStorageService reads and writes flows
+export interface FlowStorageBackend {
+  readonly mode: StorageMode;
+  readonly location: string; // The file or folder holding the flows
+  readonly damagedFiles: Map<string, FlowsFileError>; // Left alone until they are repaired
+  ensureExists(): Promise<void>;
+  readFlows(): Promise<CapturedFlow[]>;
+  readFlow(flowId: string): Promise<CapturedFlow | undefined>;
+  writeFlows(flows: CapturedFlow[]): Promise<void>; // Adds the flows or replaces them by ID
+  deleteFlow(flowId: string): Promise<boolean>;
+  replaceAllFlows(flows: CapturedFlow[]): Promise<void>; // Leaves exactly these flows
+  repairFile(filePath: string, flows: CapturedFlow[]): Promise<void>; // Replaces a damaged file
+  watchPattern(): string; // Glob matching the files the flows are in
+}
+
+// An entry of the index written next to the flow files, when flowMaster.flowsIndex is on
+interface FlowIndexEntry {
+  id: string;
+  name: string;
+  category?: CapturedFlow["category"];
+  tags?: string[];
+  updatedAt: string;
+  file: string; // Relative to the index
+}
+
+const INDEX_FILE_NAME = "index.json";
+
+/** Creates the backend for a storage mode, both derived from the `flowMaster.sharedFlowsFile` path. */
+export function createStorageBackend(
+  mode: StorageMode,
+  flowsFilePath: string,
+  backups: FlowBackups,
+  paths: FlowPaths
+): FlowStorageBackend {
+  return mode === "filePerFlow"
+    ? new FilePerFlowBackend(getFlowsFolderPath(flowsFilePath), backups, paths)
+    : new SingleFileBackend(flowsFilePath, backups, paths);
+}
+
+// `.flowmaster/flows.json` keeps its flows in `.flowmaster/flows/` when stored one file per flow
+function getFlowsFolderPath(flowsFilePath: string): string {
+  const extension = path.extname(flowsFilePath);
+  return extension ? flowsFilePath.slice(0, -extension.length) : `${flowsFilePath}.d`;
+}
+
+async function createParentDirectory(filePath: string): Promise<void> {
+  const dirPath = path.dirname(filePath);
+  try {
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(dirPath));
+  } catch (dirError: any) {
+    // Ignore if directory already exists
+    if (dirError.code !== "EEXIST" && dirError.name !== "EntryExists") {
+      Logger.error(`Error creating directory ${dirPath}:`, dirError);
+    }
+  }
+}
+
+// Reads a flows file strictly, throwing a FlowsFileError if it's damaged, and backs it up. Files
+// saved by an older version are upgraded in memory, and written at the current version by the
+// next save: the backup keeps the original.
+async function readFlowsFile(
+  filePath: string,
+  backups: FlowBackups,
+  paths: FlowPaths
+): Promise<ProjectFlows> {
+  const text = await readTextFile(filePath);
+  const projectFlows = parseFlowsFile(text, filePath);
+  await backups.backUp(filePath, text);
+  const flows = await paths.resolveFlows(projectFlows.flows);
+  return upgradeFlowsFile(filePath, { ...projectFlows, flows });
+}
+
+async function writeJson(filePath: string, data: any): Promise<void> {
+  await writeTextFile(filePath, JSON.stringify(data, null, 2));
+}
+
+// Writes flows in the shape of flows.json, their paths relative to the workspace folder
+async function writeFlowsJson(
+  filePath: string,
+  flows: CapturedFlow[],
+  paths: FlowPaths
+): Promise<void> {
+  await writeJson(filePath, {
+    version: FLOW_FILE_VERSION,
+    flows: flows.map((flow) => paths.toStoredFlow(flow)),
+  });
+}
+
+// Files logged as upgraded, so reading them again doesn't log it every time
+const upgradedFiles = new Set<string>();
+
+// Upgrades the contents of a file saved by an older version of the extension
+function upgradeFlowsFile(filePath: string, projectFlows: ProjectFlows): ProjectFlows {
+  if (compareVersions(projectFlows.version, FLOW_FILE_VERSION) >= 0) {
+    return projectFlows;
+  }
+  const upgraded = upgradeProjectFlows(projectFlows);
+  if (!upgradedFiles.has(filePath)) {
+    upgradedFiles.add(filePath);
+    Logger.log(
+      `Read ${filePath} as version ${upgraded.version}, it was saved with ${projectFlows.version}. It is upgraded by the next save.`
+    );
+  }
+  return upgraded;
+}
+
+// A newer version of the extension may have stored fields this one would drop when writing, and
+// a damaged file must be repaired first: parseFlowsFile throws for it, and it is recorded with
+// the backend's damaged files
+async function assertCanOverwrite(
+  filePath: string,
+  damagedFiles: Map<string, FlowsFileError>
+): Promise<void> {
+  let text: string;
+  try {
+    text = await readTextFile(filePath);
+  } catch {
+    return; // Not created yet
+  }
+  let version: string;
+  try {
+    version = parseFlowsFile(text, filePath).version;
+  } catch (error) {
+    if (error instanceof FlowsFileError) {
+      damagedFiles.set(filePath, error);
+    }
+    throw error;
+  }
+  if (compareVersions(version, FLOW_FILE_VERSION) > 0) {
+    throw new NewerFlowsFileError(filePath, version);
+  }
+}
+
+// Every flow in one JSON file, rewritten on every save
+class SingleFileBackend implements FlowStorageBackend {
+  public readonly mode = "singleFile";
+  public readonly damagedFiles = new Map<string, FlowsFileError>();
+
+  constructor(
+    public readonly location: string,
+    private readonly backups: FlowBackups,
+    private readonly paths: FlowPaths
+  ) {}
+
+  public async ensureExists(): Promise<void> {
+    try {
+      await vscode.workspace.fs.stat(vscode.Uri.file(this.location));
+    } catch {
+      Logger.log(`Flows file not found at ${this.location}. Creating new one.`);
+      await createParentDirectory(this.location);
+      try {
+        await writeFlowsJson(this.location, [], this.paths);
+      } catch (error) {
+        Logger.error(`Error creating ${this.location}:`, error);
+        vscode.window.showErrorMessage("Flow Master: Error creating the flows file. Check logs.");
+      }
+    }
+  }
+
+  public async readFlows(): Promise<CapturedFlow[]> {
+    return (await this.readFlowsFromFile()).flows;
+  }
+
+  public async readFlow(flowId: string): Promise<CapturedFlow | undefined> {
+    return (await this.readFlowsFromFile()).flows.find((flow) => flow.id === flowId);
+  }
+
+  public async writeFlows(flows: CapturedFlow[]): Promise<void> {
+    const projectFlows = await this.readFlowsFromFile();
+    flows.forEach((flow) => {
+      const index = projectFlows.flows.findIndex((f) => f.id === flow.id);
+      if (index === -1) {
+        projectFlows.flows.push(flow);
+      } else {
+        projectFlows.flows[index] = flow;
+      }
+    });
+    await this.writeFlowsToFile(projectFlows);
+  }
+
+  public async deleteFlow(flowId: string): Promise<boolean> {
+    const projectFlows = await this.readFlowsFromFile();
+    const initialLength = projectFlows.flows.length;
+    projectFlows.flows = projectFlows.flows.filter((f) => f.id !== flowId);
+    if (projectFlows.flows.length === initialLength) {
+      return false;
+    }
+    await this.writeFlowsToFile(projectFlows);
+    return true;
+  }
+
+  public async replaceAllFlows(flows: CapturedFlow[]): Promise<void> {
+    await createParentDirectory(this.location);
+    await this.writeFlowsToFile({ version: FLOW_FILE_VERSION, flows });
+  }
+
+  public async repairFile(filePath: string, flows: CapturedFlow[]): Promise<void> {
+    await writeFlowsJson(this.location, flows, this.paths);
+    this.damagedFiles.delete(filePath);
+  }
+
+  public watchPattern(): string {
+    return this.location;
+  }
+
+  // Throws rather than returning no flows: saving them would write over every flow in the file
+  private async readFlowsFromFile(): Promise<ProjectFlows> {
+    await this.ensureExists(); // Ensure it exists before reading
+    try {
+      const projectFlows = await readFlowsFile(this.location, this.backups, this.paths);
+      this.damagedFiles.clear();
+      return projectFlows;
+    } catch (error) {
+      Logger.error(`Error reading ${this.location}:`, error);
+      if (error instanceof FlowsFileError) {
+        this.damagedFiles.set(this.location, error);
+      }
+      throw error;
+    }
+  }
+
+  // Throws when the file can't be written, for the caller to report: a migration must not go on
+  private async writeFlowsToFile(projectFlows: ProjectFlows): Promise<void> {
+    await assertCanOverwrite(this.location, this.damagedFiles);
+    await writeFlowsJson(this.location, projectFlows.flows, this.paths);
+  }
+}
+
+// One file per flow, named after its ID, so flows saved on different branches don't conflict.
+// Each file has the shape of flows.json with a single flow, so both share a schema and migrations.
+class FilePerFlowBackend implements FlowStorageBackend {
+  public readonly mode = "filePerFlow";
+  public readonly damagedFiles = new Map<string, FlowsFileError>();
+
+  constructor(
+    public readonly location: string,
+    private readonly backups: FlowBackups,
+    private readonly paths: FlowPaths
+  ) {}
+
+  public async ensureExists(): Promise<void> {
+    try {
+      await vscode.workspace.fs.createDirectory(vscode.Uri.file(this.location));
+    } catch (error) {
+      Logger.error(`Error creating flows folder ${this.location}:`, error);
+    }
+  }
+
+  public async readFlows(): Promise<CapturedFlow[]> {
+    let entries: [string, vscode.FileType][] = [];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(this.location));
+    } catch {
+      return []; // No flow saved yet
+    }
+    this.damagedFiles.clear(); // Found again below, unless they were repaired or deleted
+    const flows: CapturedFlow[] = [];
+    for (const [name, type] of entries) {
+      if (type !== vscode.FileType.File || !name.endsWith(".json") || name === INDEX_FILE_NAME) {
+        continue;
+      }
+      const flow = await this.readFlowFile(path.join(this.location, name));
+      if (flow) {
+        flows.push(flow);
+      }
+    }
+    // Oldest first, as they would be in a single file
+    return flows.sort(
+      (a, b) => (a.createdAt || "").localeCompare(b.createdAt || "") || a.id.localeCompare(b.id)
+    );
+  }
+
+  public async readFlow(flowId: string): Promise<CapturedFlow | undefined> {
+    const flow = await this.readFlowFile(this.getFlowFilePath(flowId), true);
+    if (flow?.id === flowId) {
+      return flow;
+    }
+    // The file may have been renamed by hand
+    return (await this.readFlows()).find((f) => f.id === flowId);
+  }
+
+  public async writeFlows(flows: CapturedFlow[]): Promise<void> {
+    await this.ensureExists();
+    try {
+      for (const flow of flows) {
+        const filePath = this.getFlowFilePath(flow.id);
+        await assertCanOverwrite(filePath, this.damagedFiles);
+        await writeFlowsJson(filePath, [flow], this.paths);
+      }
+    } finally {
+      await this.writeIndex(); // Lists the flows written before a failure
+    }
+  }
+
+  public async deleteFlow(flowId: string): Promise<boolean> {
+    const filePath = await this.findFlowFilePath(flowId);
+    if (!filePath) {
+      return false;
+    }
+    try {
+      await vscode.workspace.fs.delete(vscode.Uri.file(filePath));
+    } catch (error) {
+      Logger.error(`Error deleting ${filePath}:`, error);
+      return false;
+    }
+    await this.writeIndex();
+    return true;
+  }
+
+  public async replaceAllFlows(flows: CapturedFlow[]): Promise<void> {
+    const keptIds = new Set(flows.map((flow) => flow.id));
+    for (const flow of await this.readFlows()) {
+      if (!keptIds.has(flow.id)) {
+        await this.deleteFlow(flow.id);
+      }
+    }
+    await this.writeFlows(flows);
+  }
+
+  public async repairFile(filePath: string, flows: CapturedFlow[]): Promise<void> {
+    // The flows may be saved under other file names, e.g. when the file was renamed by hand
+    await vscode.workspace.fs.delete(vscode.Uri.file(filePath));
+    this.damagedFiles.delete(filePath);
+    await this.writeFlows(flows);
+  }
+
+  public watchPattern(): string {
+    return path.join(this.location, "*.json");
+  }
+
+  private getFlowFilePath(flowId: string): string {
+    return path.join(this.location, `${encodeURIComponent(flowId)}.json`);
+  }
+
+  private async findFlowFilePath(flowId: string): Promise<string | undefined> {
+    const filePath = this.getFlowFilePath(flowId);
+    if ((await this.readFlowFile(filePath, true))?.id === flowId) {
+      return filePath;
+    }
+    // The file may have been renamed by hand
+    let entries: [string, vscode.FileType][] = [];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(this.location));
+    } catch {
+      return undefined;
+    }
+    for (const [name] of entries) {
+      const otherPath = path.join(this.location, name);
+      if (
+        name.endsWith(".json") &&
+        name !== INDEX_FILE_NAME &&
+        (await this.readFlowFile(otherPath))?.id === flowId
+      ) {
+        return otherPath;
+      }
+    }
+    return undefined;
+  }
+
+  private async readFlowFile(
+    filePath: string,
+    mayBeMissing: boolean = false
+  ): Promise<CapturedFlow | undefined> {
+    try {
+      const projectFlows = await readFlowsFile(filePath, this.backups, this.paths);
+      if (projectFlows.flows.length !== 1) {
+        throw new FlowsFileError(`Expected one flow, found ${projectFlows.flows.length}`, filePath);
+      }
+      this.damagedFiles.delete(filePath);
+      return projectFlows.flows[0];
+    } catch (error: any) {
+      if (mayBeMissing && (error.code === "FileNotFound" || error.code === "ENOENT")) {
+        return undefined;
+      }
+      Logger.error(`Error reading ${filePath}:`, error);
+      if (error instanceof FlowsFileError) {
+        this.damagedFiles.set(filePath, error); // Skipped, the other flows can still be read
+      } else {
+        vscode.window.showErrorMessage(
+          `Flow Master: Error reading ${path.basename(filePath)}. Check logs.`
+        );
+      }
+      return undefined;
+    }
+  }
+
+  // The index is rewritten on every save, so it can conflict like flows.json: it is opt-in
+  private async writeIndex(): Promise<void> {
+    if (!vscode.workspace.getConfiguration("flowMaster").get<boolean>("flowsIndex", false)) {
+      return;
+    }
+    const flows: FlowIndexEntry[] = (await this.readFlows()).map((flow) => ({
+      id: flow.id,
+      name: flow.name,
+      category: flow.category,
+      tags: flow.tags,
+      updatedAt: flow.updatedAt,
+      file: path.basename(this.getFlowFilePath(flow.id)),
+    }));
+    try {
+      await writeJson(path.join(this.location, INDEX_FILE_NAME), {
+        version: FLOW_FILE_VERSION,
+        flows,
+      });
+    } catch (error) {
+      Logger.error(`Error writing the flow index in ${this.location}:`, error);
+    }
+  }
+}
@@ -1,25 +1,62 @@
 import * as vscode from "vscode";
-import * as fs from "fs";
 import * as path from "path";
-import { ProjectFlows, CapturedFlow } from "../types/flowTypes";
+import { CapturedFlow } from "../types/flowTypes";
 import { v4 as uuidv4 } from "uuid";
 import { Logger } from "../utilities/logger";
 import { FlowListProvider } from "../providers/FlowListProvider";
+import { FlowStorageBackend, StorageMode, createStorageBackend } from "./flowStorageBackends";
+import { FlowBackups, FlowsBackup, readTextFile, writeTextFile } from "./flowFiles";
+import { FlowsFileError, salvageFlows } from "../utilities/flowFileParsing";
+import { FlowPaths } from "../utilities/flowPaths";
+import { anchorFlows } from "../utilities/codeAnchors";
+import { toDocumentUri } from "../utilities/documentPaths";
 
-const DEFAULT_FLOW_FILE_VERSION = "1.0";
+// The flows of one workspace folder, each folder keeping its own flows file
+interface FolderStorage {
+  folder: vscode.WorkspaceFolder;
+  flowsFilePath: string;
+  backend: FlowStorageBackend;
+  backups: FlowBackups;
+  watcher?: vscode.FileSystemWatcher;
+}
+
+/** The flows of a workspace folder, as shown in the Shared Flows tree. */
+export interface FolderFlows {
+  folder: vscode.WorkspaceFolder;
+  flows: CapturedFlow[];
+}
+
+/** Thrown by the writes of a workspace folder while one of its flows files can't be read. */
+export class FlowsReadOnlyError extends Error {
+  constructor(public readonly damagedFiles: FlowsFileError[]) {
+    super(
+      `Flows are read-only until ${damagedFiles
+        .map((error) => path.basename(error.filePath))
+        .join(", ")} is repaired.`
+    );
+    this.name = "FlowsReadOnlyError";
+  }
+}
 
 export class FlowStorageService {
   private context: vscode.ExtensionContext;
-  private flowsFilePath: string;
-  private flowsFileWatcher: vscode.FileSystemWatcher | undefined;
+  private storages: FolderStorage[];
+  private flowListProvider: FlowListProvider | undefined; // Refreshed by the watchers
+  private diagnostics: vscode.DiagnosticCollection; // Where the damaged flows files are
+  private reportedProblems = new Set<string>(); // Notified once until they are repaired
 
   constructor(context: vscode.ExtensionContext) {
     this.context = context;
-    this.flowsFilePath = this.getFlowsFilePath();
-    this.ensureFlowsFileExists();
+    this.diagnostics = vscode.languages.createDiagnosticCollection("flowMaster");
+    context.subscriptions.push(this.diagnostics);
+    this.storages = this.createStorages();
+    // Only the current watchers, they are replaced whenever the storage locations change
+    context.subscriptions.push({
+      dispose: () => this.storages.forEach((storage) => storage.watcher?.dispose()),
+    });
   }
 
-  private getFlowsFilePath(): string {
+  private createStorages(): FolderStorage[] {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders) {
       vscode.window.showErrorMessage(
@@ -28,162 +65,420 @@ export class FlowStorageService {
       Logger.error("No workspace folder open.");
       throw new Error("No workspace folder open.");
     }
-    // Allow users to configure the path
+    // Backups are kept with the workspace state rather than in the repository
+    const backupsPath = path.join(
+      (this.context.storageUri ?? this.context.globalStorageUri).fsPath,
+      "backups"
+    );
+    return workspaceFolders.map((folder) => {
+      const flowsFilePath = this.getFlowsFilePath(folder);
+      const backups = new FlowBackups(path.join(backupsPath, folder.name));
+      const backend = createStorageBackend(
+        this.getConfiguredStorageMode(folder),
+        flowsFilePath,
+        backups,
+        new FlowPaths(folder)
+      );
+      backend.ensureExists();
+      return { folder, flowsFilePath, backend, backups };
+    });
+  }
+
+  private getFlowsFilePath(folder: vscode.WorkspaceFolder): string {
+    // Allow users to configure the path, for each folder of a multi-root workspace
     const configuredPath = vscode.workspace
-      .getConfiguration("flowMaster")
+      .getConfiguration("flowMaster", folder.uri)
       .get<string>("sharedFlowsFile");
     if (!configuredPath) {
       Logger.error("Flow Master: 'sharedFlowsFile' configuration is missing.");
       vscode.window.showErrorMessage("Flow Master configuration 'sharedFlowsFile' is missing.");
-      return path.join(workspaceFolders[0].uri.fsPath, ".flowmaster", "flows.json"); // Fallback
+      return path.join(folder.uri.fsPath, ".flowmaster", "flows.json"); // Fallback
     }
-    return path.join(workspaceFolders[0].uri.fsPath, configuredPath);
+    return path.join(folder.uri.fsPath, configuredPath);
+  }
+
+  private getConfiguredStorageMode(folder: vscode.WorkspaceFolder): StorageMode {
+    return vscode.workspace
+      .getConfiguration("flowMaster", folder.uri)
+      .get<StorageMode>("storageMode", "singleFile");
+  }
+
+  private getStorage(folder: vscode.WorkspaceFolder): FolderStorage {
+    return (
+      this.storages.find((storage) => storage.folder.uri.toString() === folder.uri.toString()) ??
+      this.storages[0]
+    );
+  }
+
+  /** The workspace folders with flows, in the order of the workspace. */
+  public get workspaceFolders(): vscode.WorkspaceFolder[] {
+    return this.storages.map((storage) => storage.folder);
+  }
+
+  /** The storage mode of a workspace folder, see `flowMaster.storageMode`. */
+  public getStorageMode(folder: vscode.WorkspaceFolder): StorageMode {
+    return this.getStorage(folder).backend.mode;
+  }
+
+  /** Where a folder's flows are stored: its flows file, or the folder with a file per flow. */
+  public getStorageLocation(folder: vscode.WorkspaceFolder): string {
+    return this.getStorage(folder).backend.location;
   }
 
+  // Called when flowMaster.sharedFlowsFile, flowMaster.storageMode or the workspace folders change
   public updateFlowsFilePath(): void {
-    this.flowsFilePath = this.getFlowsFilePath();
-    this.ensureFlowsFileExists();
-    Logger.log(`Flows file path updated to: ${this.flowsFilePath}`);
-    // Re-initialize watcher if necessary
-    this.flowsFileWatcher?.dispose();
-    // The watcher is re-created by the extension activate function or a dedicated method if needed
+    this.storages.forEach((storage) => storage.watcher?.dispose());
+    // The last folder was removed from the workspace: no flows until one is added again
+    if (!vscode.workspace.workspaceFolders?.length) {
+      this.storages = [];
+      this.reportDamagedFiles();
+      Logger.log("Flows storage cleared, no workspace folder is open.");
+      return;
+    }
+    this.storages = this.createStorages();
+    this.reportDamagedFiles(); // Those of the old locations don't matter anymore
+    this.storages.forEach((storage) =>
+      Logger.log(`Flows storage updated to: ${storage.backend.location} (${storage.backend.mode})`)
+    );
+    // Watch the new locations
+    if (this.flowListProvider) {
+      this.createFlowsFileWatcher(this.flowListProvider);
+    }
   }
 
-  private async ensureFlowsFileExists(): Promise<void> {
-    try {
-      await vscode.workspace.fs.stat(vscode.Uri.file(this.flowsFilePath));
-    } catch {
-      Logger.log(`Flows file not found at ${this.flowsFilePath}. Creating new one.`);
-      const initialProjectFlows: ProjectFlows = { version: DEFAULT_FLOW_FILE_VERSION, flows: [] };
-      const dirPath = path.dirname(this.flowsFilePath);
+  /**
+   * Copies every flow of a workspace folder into the storage of another mode, replacing what it
+   * held, e.g. to move a team from the shared flows file to a file per flow. The current storage
+   * is left untouched.
+   */
+  public async migrateStorage(
+    folder: vscode.WorkspaceFolder,
+    targetMode: StorageMode
+  ): Promise<number> {
+    const storage = this.getStorage(folder);
+    const flows = await this.readFlows(storage); // Finds the damaged files, which stop the migration
+    return this.whenWritable(storage, async () => {
+      const target = createStorageBackend(
+        targetMode,
+        storage.flowsFilePath,
+        storage.backups,
+        new FlowPaths(storage.folder)
+      );
+      await target.replaceAllFlows(flows);
+      Logger.log(
+        `Flows migrated: ${flows.length} from ${storage.backend.location} to ${target.location}`
+      );
+      return flows.length;
+    });
+  }
+
+  /** The flows files that can't be read. Their folder's flows are read-only until they are repaired. */
+  public get damagedFiles(): FlowsFileError[] {
+    return this.storages.flatMap((storage) => [...storage.backend.damagedFiles.values()]);
+  }
+
+  public async getAllFlows(): Promise<CapturedFlow[]> {
+    return (await this.getFlowsByFolder()).flatMap((folderFlows) => folderFlows.flows);
+  }
+
+  /** The flows of each workspace folder. */
+  public async getFlowsByFolder(): Promise<FolderFlows[]> {
+    const folderFlows: FolderFlows[] = [];
+    for (const storage of this.storages) {
+      folderFlows.push({ folder: storage.folder, flows: await this.readFlows(storage) });
+    }
+    return folderFlows;
+  }
+
+  public async getFlowById(flowId: string): Promise<CapturedFlow | undefined> {
+    for (const storage of this.storages) {
       try {
-        await vscode.workspace.fs.createDirectory(vscode.Uri.file(dirPath));
-      } catch (dirError: any) {
-        // Ignore if directory already exists
-        if (dirError.code !== "EEXIST" && dirError.name !== "EntryExists") {
-          Logger.error(`Error creating directory ${dirPath}:`, dirError);
+        const flow = await storage.backend.readFlow(flowId);
+        if (flow) {
+          return flow;
+        }
+      } catch (error) {
+        if (!(error instanceof FlowsFileError)) {
+          throw error;
         }
+      } finally {
+        this.reportDamagedFiles();
       }
-      await this.writeFlowsToFile(initialProjectFlows);
     }
+    return undefined;
   }
 
-  private async readFlowsFromFile(): Promise<ProjectFlows> {
+  private async readFlows(storage: FolderStorage): Promise<CapturedFlow[]> {
     try {
-      await this.ensureFlowsFileExists(); // Ensure it exists before reading
-      const fileContent = await vscode.workspace.fs.readFile(vscode.Uri.file(this.flowsFilePath));
-      const data = JSON.parse(Buffer.from(fileContent).toString("utf8"));
-      if (!data.version || !Array.isArray(data.flows)) {
-        Logger.error("Invalid flow file structure. Reinitializing.", data);
-        return { version: DEFAULT_FLOW_FILE_VERSION, flows: [] };
-      }
-      return data;
+      return await storage.backend.readFlows();
     } catch (error) {
-      Logger.error("Error reading flows.json:", error);
-      vscode.window.showErrorMessage(
-        `Flow Master: Error reading flows file. Check logs. It might be corrupted. Creating a new one if necessary.`
-      );
-      return { version: DEFAULT_FLOW_FILE_VERSION, flows: [] }; // Return empty/default if error
+      if (error instanceof FlowsFileError) {
+        return []; // The flows stay in the file until it's repaired
+      }
+      throw error;
+    } finally {
+      this.reportDamagedFiles();
     }
   }
 
-  private async writeFlowsToFile(projectFlows: ProjectFlows): Promise<void> {
-    try {
-      const Ggg = JSON.stringify(projectFlows, null, 2);
-      await vscode.workspace.fs.writeFile(
-        vscode.Uri.file(this.flowsFilePath),
-        Buffer.from(Ggg, "utf8")
-      );
-    } catch (error) {
-      Logger.error("Error writing to flows.json:", error);
-      vscode.window.showErrorMessage("Flow Master: Error writing to flows file. Check logs.");
-    }
+  /** The backups kept of a flows file, newest first. */
+  public async listBackups(filePath: string): Promise<FlowsBackup[]> {
+    return this.getStorageOfFile(filePath).backups.list(filePath);
   }
 
-  public async getAllFlows(): Promise<CapturedFlow[]> {
-    const projectFlows = await this.readFlowsFromFile();
-    return projectFlows.flows;
+  /**
+   * Replaces a flows file with one of its backups. A damaged file is copied to the backups first,
+   * and the copy returned.
+   */
+  public async restoreBackup(filePath: string, backup: FlowsBackup): Promise<string | undefined> {
+    const storage = this.getStorageOfFile(filePath);
+    const damagedCopy = storage.backend.damagedFiles.has(filePath)
+      ? await storage.backups.keepDamagedCopy(filePath)
+      : undefined;
+    await writeTextFile(filePath, await readTextFile(backup.filePath));
+    await this.readFlows(storage); // Leaves read-only mode once no file is damaged
+    Logger.log(`Flows file ${filePath} restored from ${backup.filePath}`);
+    return damagedCopy;
   }
 
-  public async getFlowById(flowId: string): Promise<CapturedFlow | undefined> {
-    const projectFlows = await this.readFlowsFromFile();
-    return projectFlows.flows.find((flow) => flow.id === flowId);
+  /** The flows that can still be read from a damaged flows file. */
+  public async findSalvageableFlows(filePath: string): Promise<CapturedFlow[]> {
+    return salvageFlows(await readTextFile(filePath));
+  }
+
+  /**
+   * Replaces a damaged flows file with the flows salvaged from it. The damaged file is copied to
+   * the backups first, and the copy returned.
+   */
+  public async repairFile(filePath: string, flows: CapturedFlow[]): Promise<string> {
+    const storage = this.getStorageOfFile(filePath);
+    const damagedCopy = await storage.backups.keepDamagedCopy(filePath);
+    await storage.backend.repairFile(filePath, flows);
+    await this.readFlows(storage);
+    Logger.log(`Flows file ${filePath} repaired, ${flows.length} flows salvaged`);
+    return damagedCopy;
+  }
+
+  // The storage a flows file, or a file of a folder with a file per flow, belongs to
+  private getStorageOfFile(filePath: string): FolderStorage {
+    return (
+      this.storages.find(
+        (storage) =>
+          filePath === storage.backend.location ||
+          filePath.startsWith(storage.backend.location + path.sep)
+      ) ?? this.storages[0]
+    );
+  }
+
+  // Flows are saved with the workspace folder of the code they start in
+  private getStorageForFlow(flow: CapturedFlow): FolderStorage {
+    const filePath =
+      flow.startPin?.filePath ??
+      flow.nodes.find((node) => node.codeReference)?.codeReference?.filePath;
+    const folder = filePath
+      ? vscode.workspace.getWorkspaceFolder(toDocumentUri(filePath))
+      : undefined;
+    if (this.storages.length === 0) {
+      throw new Error("No workspace folder open. Open a folder to save flows.");
+    }
+    return folder ? this.getStorage(folder) : this.storages[0];
+  }
+
+  // The storage with a flow, or one that may have it in a damaged file
+  private async findStorageOfFlow(flowId: string): Promise<FolderStorage | undefined> {
+    for (const storage of this.storages) {
+      try {
+        if (await storage.backend.readFlow(flowId)) {
+          return storage;
+        }
+      } catch (error) {
+        if (!(error instanceof FlowsFileError)) {
+          throw error;
+        }
+      }
+    }
+    return this.storages.find((storage) => storage.backend.damagedFiles.size > 0);
   }
 
   public async saveFlow(
     flow: Omit<CapturedFlow, "id" | "createdAt" | "updatedAt">
   ): Promise<CapturedFlow> {
-    const projectFlows = await this.readFlowsFromFile();
     const now = new Date().toISOString();
+    // Anchored while the code is as it was captured, so the flow can follow later edits
+    const [anchoredFlow] = await anchorFlows([flow]);
     const newFlow: CapturedFlow = {
-      ...flow,
+      ...anchoredFlow,
       id: uuidv4(),
       createdAt: now,
       updatedAt: now,
     };
-    projectFlows.flows.push(newFlow);
-    await this.writeFlowsToFile(projectFlows);
+    const storage = this.getStorageForFlow(newFlow);
+    await this.whenWritable(storage, () => storage.backend.writeFlows([newFlow]));
     Logger.log(`Flow saved: ${newFlow.name} (ID: ${newFlow.id})`);
     return newFlow;
   }
 
+  /** Saves several new flows with a single write, e.g. the flows generated for a folder. */
+  public async saveFlows(
+    flows: Omit<CapturedFlow, "id" | "createdAt" | "updatedAt">[]
+  ): Promise<CapturedFlow[]> {
+    const now = new Date().toISOString();
+    const newFlows: CapturedFlow[] = (await anchorFlows(flows)).map((flow) => ({
+      ...flow,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+    }));
+    // Each folder's flows with a single write
+    const flowsByStorage = new Map<FolderStorage, CapturedFlow[]>();
+    newFlows.forEach((flow) => {
+      const storage = this.getStorageForFlow(flow);
+      flowsByStorage.set(storage, [...(flowsByStorage.get(storage) || []), flow]);
+    });
+    for (const [storage, storageFlows] of flowsByStorage) {
+      await this.whenWritable(storage, () => storage.backend.writeFlows(storageFlows));
+    }
+    Logger.log(`Flows saved: ${newFlows.length}`);
+    return newFlows;
+  }
+
   public async updateFlow(updatedFlow: CapturedFlow): Promise<CapturedFlow | undefined> {
-    const projectFlows = await this.readFlowsFromFile();
-    const index = projectFlows.flows.findIndex((f) => f.id === updatedFlow.id);
-    if (index === -1) {
+    const storage = await this.findStorageOfFlow(updatedFlow.id);
+    if (!storage) {
       Logger.error(`Flow with ID ${updatedFlow.id} not found for update.`);
       return undefined;
     }
-    projectFlows.flows[index] = {
-      ...updatedFlow,
-      updatedAt: new Date().toISOString(),
-    };
-    await this.writeFlowsToFile(projectFlows);
-    Logger.log(`Flow updated: ${updatedFlow.name} (ID: ${updatedFlow.id})`);
-    return projectFlows.flows[index];
+    return this.whenWritable(storage, async () => {
+      // Only the code of the references added or changed since the flow was stored is read
+      const storedFlow = await storage.backend.readFlow(updatedFlow.id);
+      const [anchoredFlow] = await anchorFlows([updatedFlow], storedFlow ? [storedFlow] : []);
+      const flow: CapturedFlow = {
+        ...anchoredFlow,
+        updatedAt: new Date().toISOString(),
+      };
+      await storage.backend.writeFlows([flow]);
+      Logger.log(`Flow updated: ${updatedFlow.name} (ID: ${updatedFlow.id})`);
+      return flow;
+    });
   }
 
   public async deleteFlow(flowId: string): Promise<boolean> {
-    const projectFlows = await this.readFlowsFromFile();
-    const initialLength = projectFlows.flows.length;
-    projectFlows.flows = projectFlows.flows.filter((f) => f.id !== flowId);
-    if (projectFlows.flows.length < initialLength) {
-      await this.writeFlowsToFile(projectFlows);
-      Logger.log(`Flow deleted (ID: ${flowId})`);
-      return true;
+    const storage = await this.findStorageOfFlow(flowId);
+    if (!storage) {
+      Logger.error(`Attempted to delete non-existent flow (ID: ${flowId})`);
+      return false;
     }
-    Logger.error(`Attempted to delete non-existent flow (ID: ${flowId})`);
-    return false;
+    return this.whenWritable(storage, async () => {
+      if (await storage.backend.deleteFlow(flowId)) {
+        Logger.log(`Flow deleted (ID: ${flowId})`);
+        return true;
+      }
+      Logger.error(`Attempted to delete non-existent flow (ID: ${flowId})`);
+      return false;
+    });
   }
 
-  public createFlowsFileWatcher(flowListProvider: FlowListProvider): void {
-    if (this.flowsFileWatcher) {
-      this.flowsFileWatcher.dispose();
+  // Runs a write only while every flows file of the folder can be read, so a damaged one isn't
+  // saved over
+  private async whenWritable<T>(storage: FolderStorage, write: () => Promise<T>): Promise<T> {
+    const damagedFiles = [...storage.backend.damagedFiles.values()];
+    try {
+      if (damagedFiles.length === 0) {
+        return await write();
+      }
+    } catch (error) {
+      if (!(error instanceof FlowsFileError)) {
+        throw error;
+      }
+      damagedFiles.push(error); // The file written to, e.g. by a migration to another backend
+    } finally {
+      this.reportDamagedFiles();
     }
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (workspaceFolders) {
-      // We need to watch the relative path from the workspace root
-      const relativePattern = path.relative(workspaceFolders[0].uri.fsPath, this.flowsFilePath);
-      this.flowsFileWatcher = vscode.workspace.createFileSystemWatcher(
-        new vscode.RelativePattern(workspaceFolders[0], relativePattern)
+    throw new FlowsReadOnlyError(damagedFiles);
+  }
+
+  /**
+   * Shows the damaged files behind a failed write, with the actions that repair them, even when
+   * they were reported already. Returns false for other errors, which the caller reports.
+   */
+  public showReadOnlyError(error: unknown): boolean {
+    if (!(error instanceof FlowsReadOnlyError)) {
+      return false;
+    }
+    error.damagedFiles.forEach((damagedFile) => this.showDamagedFileMessage(damagedFile));
+    return true;
+  }
+
+  // Shows the damaged files in the Problems panel, with a notification when a problem is new
+  private reportDamagedFiles(): void {
+    const problems = new Set<string>();
+    this.diagnostics.clear();
+    for (const error of this.damagedFiles) {
+      const position = new vscode.Position(error.line, error.character);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(position, position),
+        `${error.message}. Flow Master won't save flows until the file is repaired.`,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = "Flow Master";
+      this.diagnostics.set(vscode.Uri.file(error.filePath), [diagnostic]);
+
+      const problem = `${error.filePath}:${error.line}:${error.character}:${error.message}`;
+      problems.add(problem);
+      if (!this.reportedProblems.has(problem)) {
+        this.showDamagedFileMessage(error);
+      }
+    }
+    this.reportedProblems = problems;
+  }
+
+  private async showDamagedFileMessage(error: FlowsFileError): Promise<void> {
+    const action = await vscode.window.showErrorMessage(
+      `Flow Master: ${path.basename(error.filePath)} can't be read: ${error.message} (line ${
+        error.line + 1
+      }, column ${error.character + 1}). Flows are read-only until it is repaired.`,
+      "Open File",
+      "Restore from Backup",
+      "Salvage Valid Flows"
+    );
+    if (action === "Open File") {
+      const position = new vscode.Position(error.line, error.character);
+      await vscode.window.showTextDocument(vscode.Uri.file(error.filePath), {
+        selection: new vscode.Range(position, position),
+      });
+    } else if (action === "Restore from Backup") {
+      vscode.commands.executeCommand("flowMaster.restoreFlowsBackup", error.filePath);
+    } else if (action === "Salvage Valid Flows") {
+      vscode.commands.executeCommand("flowMaster.salvageFlows", error.filePath);
+    }
+  }
+
+  public createFlowsFileWatcher(flowListProvider: FlowListProvider): void {
+    this.flowListProvider = flowListProvider;
+    for (const storage of this.storages) {
+      storage.watcher?.dispose();
+      // We need to watch the relative path from the workspace folder, with forward slashes
+      const relativePattern = path
+        .relative(storage.folder.uri.fsPath, storage.backend.watchPattern())
+        .replace(/\\/g, "/");
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(storage.folder, relativePattern)
       );
 
       const refresh = () => {
         Logger.log(
-          `Flows file watcher detected change in ${this.flowsFilePath}. Refreshing flow list.`
+          `Flows file watcher detected change in ${storage.backend.location}. Refreshing flow list.`
         );
         flowListProvider.refresh();
         // Optionally, notify GraphViewProvider if a displayed flow is affected
       };
 
-      this.flowsFileWatcher.onDidChange(refresh);
-      this.flowsFileWatcher.onDidCreate(refresh);
-      this.flowsFileWatcher.onDidDelete(refresh); // Or handle deletion appropriately
+      watcher.onDidChange(refresh);
+      watcher.onDidCreate(refresh);
+      watcher.onDidDelete(refresh); // Or handle deletion appropriately
 
-      this.context.subscriptions.push(this.flowsFileWatcher);
-      Logger.log(`Watching for changes in: ${this.flowsFilePath}`);
-    } else {
-      Logger.error("Cannot create file watcher: No workspace folder open.");
+      storage.watcher = watcher;
+      Logger.log(`Watching for changes in: ${storage.backend.location}`);
     }
   }
 }
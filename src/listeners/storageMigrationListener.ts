@@ -0,0 +1,93 @@
+import * as vscode from "vscode";
+import { FlowStorageService } from "./flowStorageService";
+import { FlowListProvider } from "../providers/FlowListProvider";
+import { StorageMode } from "./flowStorageBackends";
+import { Logger } from "../utilities/logger";
+
+const STORAGE_MODES: { mode: StorageMode; label: string; detail: string }[] = [
+  {
+    mode: "singleFile",
+    label: "Single file",
+    detail: "Every flow in the shared flows file (flowMaster.sharedFlowsFile)",
+  },
+  {
+    mode: "filePerFlow",
+    label: "One file per flow",
+    detail: "A JSON file per flow, so flows saved on different branches merge without conflicts",
+  },
+];
+
+export const migrateFlowStorageHandler = async (
+  flowStorageService: FlowStorageService,
+  flowListProvider: FlowListProvider
+) => {
+  // Each folder of a multi-root workspace has its own flows
+  const folders = flowStorageService.workspaceFolders;
+  const folder =
+    folders.length > 1
+      ? await vscode.window.showWorkspaceFolderPick({
+          placeHolder: "Convert the stored flows of the folder",
+        })
+      : folders[0];
+  if (!folder) {
+    return; // User cancelled
+  }
+  const currentMode = flowStorageService.getStorageMode(folder);
+  const picked = await vscode.window.showQuickPick(
+    STORAGE_MODES.map((option) => ({
+      ...option,
+      description: option.mode === currentMode ? "Current" : undefined,
+    })),
+    { placeHolder: "Convert the stored flows to" }
+  );
+  if (!picked) {
+    return; // User cancelled
+  }
+  if (picked.mode === currentMode) {
+    vscode.window.showInformationMessage(
+      `Flow Master: Flows are already stored as "${picked.label}".`
+    );
+    return;
+  }
+
+  const confirmed = await vscode.window.showWarningMessage(
+    `Convert every flow to "${picked.label}"? Flows already stored that way are replaced.`,
+    { modal: true },
+    "Convert"
+  );
+  if (confirmed !== "Convert") {
+    return;
+  }
+  const oldLocation = vscode.workspace.asRelativePath(
+    flowStorageService.getStorageLocation(folder)
+  );
+  try {
+    const count = await flowStorageService.migrateStorage(folder, picked.mode);
+    await vscode.workspace
+      .getConfiguration("flowMaster", folder.uri)
+      .update(
+        "storageMode",
+        picked.mode,
+        folders.length > 1
+          ? vscode.ConfigurationTarget.WorkspaceFolder
+          : vscode.ConfigurationTarget.Workspace
+      );
+    // Don't wait for the configuration listener, the message below names the new location
+    flowStorageService.updateFlowsFilePath();
+    flowListProvider.refresh();
+    const newLocation = vscode.workspace.asRelativePath(
+      flowStorageService.getStorageLocation(folder)
+    );
+    vscode.window.showInformationMessage(
+      `Flow Master: Converted ${count} flows to "${picked.label}" in ${newLocation}. ${oldLocation} was kept, delete it once everyone has switched.`
+    );
+  } catch (error: any) {
+    if (flowStorageService.showReadOnlyError(error)) {
+      return;
+    }
+    Logger.error("Error converting the flow storage:", error);
+    vscode.window.showErrorMessage(
+      `Flow Master: Could not convert the flows: ${error.message}. Check logs.`
+    );
+  }
+};
@@ -4,10 +4,12 @@ import { CapturedFlow } from "../types/flowTypes";
 import { Logger } from "../utilities/logger";
 import * as path from "path";
 
-export class FlowListProvider implements vscode.TreeDataProvider<FlowTreeItem> {
-  private _onDidChangeTreeData: vscode.EventEmitter<FlowTreeItem | undefined | null | void> =
-    new vscode.EventEmitter<FlowTreeItem | undefined | null | void>();
-  readonly onDidChangeTreeData: vscode.Event<FlowTreeItem | undefined | null | void> =
+type FlowListItem = FlowTreeItem | FolderTreeItem;
+
+export class FlowListProvider implements vscode.TreeDataProvider<FlowListItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<FlowListItem | undefined | null | void> =
+    new vscode.EventEmitter<FlowListItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<FlowListItem | undefined | null | void> =
     this._onDidChangeTreeData.event;
 
   private searchTerm: string = "";
@@ -27,47 +29,34 @@ export class FlowListProvider implements vscode.TreeDataProvider<FlowTreeItem> {
     this._onDidChangeTreeData.fire();
   }
 
-  getTreeItem(element: FlowTreeItem): vscode.TreeItem {
+  getTreeItem(element: FlowListItem): vscode.TreeItem {
     return element;
   }
 
-  async getChildren(element?: FlowTreeItem): Promise<FlowTreeItem[]> {
+  async getChildren(element?: FlowListItem): Promise<FlowListItem[]> {
+    if (element instanceof FolderTreeItem) {
+      return element.flows.map(
+        (flow) => new FlowTreeItem(flow, vscode.TreeItemCollapsibleState.None)
+      );
+    }
     if (element) {
       // If we had nested items (e.g., nodes under a flow), handle here
       return [];
     }
 
     try {
-      let flows = await this.flowStorageService.getAllFlows();
-      Logger.log(`FlowListProvider: Fetched ${flows.length} flows.`);
-
-      // Filter
-      if (this.searchTerm) {
-        const lowerSearchTerm = this.searchTerm.toLowerCase();
-        flows = flows.filter(
-          (flow) =>
-            flow.name.toLowerCase().includes(lowerSearchTerm) ||
-            flow.description.toLowerCase().includes(lowerSearchTerm) ||
-            (flow.tags && flow.tags.some((tag) => tag.toLowerCase().includes(lowerSearchTerm)))
+      const folderFlows = await this.flowStorageService.getFlowsByFolder();
+      const flowCount = folderFlows.flatMap(({ flows }) => flows).length;
+      Logger.log(`FlowListProvider: Fetched ${flowCount} flows.`);
+      // Grouped by workspace folder in multi-root workspaces, as each folder has its own flows
+      if (folderFlows.length > 1) {
+        return folderFlows.map(
+          ({ folder, flows }) => new FolderTreeItem(folder, this.filterAndSort(flows))
         );
       }
-      if (this.filterCategory && this.filterCategory !== "All") {
-        flows = flows.filter((flow) => flow.category === this.filterCategory);
-      }
-
-      // Sort
-      flows.sort((a, b) => {
-        let comparison = 0;
-        if (this.sortBy === "name") {
-          comparison = a.name.localeCompare(b.name);
-        } else {
-          // date (updatedAt)
-          comparison = new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(); // descending by default for date
-        }
-        return this.sortOrder === "asc" ? comparison : -comparison;
-      });
-
-      return flows.map((flow) => new FlowTreeItem(flow, vscode.TreeItemCollapsibleState.None));
+      return this.filterAndSort(folderFlows[0]?.flows || []).map(
+        (flow) => new FlowTreeItem(flow, vscode.TreeItemCollapsibleState.None)
+      );
     } catch (error) {
       Logger.error("FlowListProvider: Error fetching children:", error);
       vscode.window.showErrorMessage("Could not load flows for the sidebar.");
@@ -75,6 +64,35 @@ export class FlowListProvider implements vscode.TreeDataProvider<FlowTreeItem> {
     }
   }
 
+  private filterAndSort(flows: CapturedFlow[]): CapturedFlow[] {
+    // Filter
+    if (this.searchTerm) {
+      const lowerSearchTerm = this.searchTerm.toLowerCase();
+      flows = flows.filter(
+        (flow) =>
+          flow.name.toLowerCase().includes(lowerSearchTerm) ||
+          flow.description.toLowerCase().includes(lowerSearchTerm) ||
+          (flow.tags && flow.tags.some((tag) => tag.toLowerCase().includes(lowerSearchTerm)))
+      );
+    }
+    if (this.filterCategory && this.filterCategory !== "All") {
+      flows = flows.filter((flow) => flow.category === this.filterCategory);
+    }
+
+    // Sort
+    flows.sort((a, b) => {
+      let comparison = 0;
+      if (this.sortBy === "name") {
+        comparison = a.name.localeCompare(b.name);
+      } else {
+        // date (updatedAt)
+        comparison = new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(); // descending by default for date
+      }
+      return this.sortOrder === "asc" ? comparison : -comparison;
+    });
+    return flows;
+  }
+
   // --- Search, Filter, Sort methods (to be called by commands) ---
   public async setSearchTerm() {
     const term = await vscode.window.showInputBox({
@@ -155,3 +173,16 @@ export class FlowTreeItem extends vscode.TreeItem {
     );
   }
 }
+
+export class FolderTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly folder: vscode.WorkspaceFolder,
+    public readonly flows: CapturedFlow[] // Filtered and sorted
+  ) {
+    super(folder.name, vscode.TreeItemCollapsibleState.Expanded);
+    this.description = `${flows.length} flows`;
+    this.tooltip = folder.uri.fsPath;
+    this.contextValue = "workspaceFolder";
+    this.iconPath = vscode.ThemeIcon.Folder;
+  }
+}
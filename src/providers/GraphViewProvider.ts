@@ -9,12 +9,15 @@ import {
 } from "../types/flowTypes";
 import { FlowStorageService } from "../listeners/flowStorageService";
 import { Logger } from "../utilities/logger";
+import { resolveFlow } from "../utilities/codeAnchors";
+import { offerToUpdateMovedCode } from "../listeners/flowInteractionListener";
 
 export class GraphViewProvider implements vscode.WebviewViewProvider {
   //
   public static readonly viewType = "flowMaster.graphView"; // Updated ID
   private _webviewView?: vscode.WebviewView;
   private _currentFlowId?: string;
+  private _offeredUpdates = new Set<string>(); // Flows whose moved code the user was asked about
 
   constructor(
     private readonly _extensionUri: vscode.Uri, //
@@ -58,7 +61,9 @@ export class GraphViewProvider implements vscode.WebviewViewProvider {
             vscode.commands.executeCommand(
               "flowMaster.jumpToCode",
               message.payload.filePath,
-              message.payload.range
+              message.payload.range,
+              message.payload.anchor,
+              this._currentFlowId
             );
           }
           break;
@@ -72,8 +77,33 @@ export class GraphViewProvider implements vscode.WebviewViewProvider {
           break;
         case "updateFlowMetadata": // User updated metadata in webview
           if (message.payload && message.payload.flow) {
-            const updatedFlow = message.payload.flow as CapturedFlow;
-            await this._flowStorageService.updateFlow(updatedFlow);
+            const editedFlow = message.payload.flow as CapturedFlow;
+            // Only the metadata: the webview shows the flow where its code is now, and moved
+            // ranges are stored only when the user accepts the "Update Flow" offer
+            const storedFlow = await this._flowStorageService.getFlowById(editedFlow.id);
+            if (!storedFlow) {
+              break;
+            }
+            const updatedFlow: CapturedFlow = {
+              ...storedFlow,
+              name: editedFlow.name,
+              description: editedFlow.description,
+              category: editedFlow.category,
+            };
+            try {
+              await this._flowStorageService.updateFlow(updatedFlow);
+            } catch (error: any) {
+              if (!this._flowStorageService.showReadOnlyError(error)) {
+                Logger.error(
+                  `GraphViewProvider: Error saving metadata of ${editedFlow.id}:`,
+                  error
+                );
+                vscode.window.showErrorMessage(
+                  `Flow Master: Could not save the metadata: ${error.message}`
+                );
+              }
+              break;
+            }
             vscode.commands.executeCommand("flowMaster.refreshFlowList"); // Refresh sidebar
             vscode.window.showInformationMessage(`Flow "${updatedFlow.name}" metadata updated.`);
           }
@@ -112,7 +142,13 @@ export class GraphViewProvider implements vscode.WebviewViewProvider {
       const flow = await this._flowStorageService.getFlowById(flowId);
       if (flow) {
         Logger.log(`GraphViewProvider: Flow data found for ID ${flowId}. Posting to webview.`);
-        this.postMessageToWebview({ command: "showFlow", payload: flow });
+        // Shown where the code is now, with the steps whose code is gone marked as stale
+        const resolved = await resolveFlow(flow);
+        this.postMessageToWebview({ command: "showFlow", payload: resolved.flow });
+        if (!this._offeredUpdates.has(flowId)) {
+          this._offeredUpdates.add(flowId); // Asked once, not each time the view reloads
+          offerToUpdateMovedCode(resolved, this._flowStorageService);
+        }
       } else {
         Logger.error(`GraphViewProvider: No flow found for ID ${flowId}.`);
         this.postMessageToWebview({
@@ -8,6 +8,16 @@ export interface CodeReference {
   };
   // Optional: for more precise linking, e.g., function name, variable name
   identifier?: string;
+  // For calls: where the called function is declared, when it could be resolved
+  declaration?: CodeReference;
+  // Finds the code again once edits moved it, see utilities/codeAnchors
+  anchor?: CodeAnchor;
+}
+
+export interface CodeAnchor {
+  symbolPath: string[]; // Names of the symbols around the code, outermost first, e.g. ["Cart", "add"]
+  textHash: string; // Of the referenced code, whitespace ignored
+  contextHash: string; // Of the lines around it, tells apart copies of the same code
 }
 
 export interface FlowNode {
@@ -18,6 +28,9 @@ export interface FlowNode {
     | "Event"
     | "Condition"
     | "Loop"
+    | "Component"
+    | "Effect"
+    | "ErrorHandler" // A catch clause, entered from what throws in its try block
     | "EntryPoint"
     | "ExitPoint"
     | "Note"
@@ -32,7 +45,13 @@ export interface FlowEdge {
   from: string; // ID of the source FlowNode
   to: string; // ID of the target FlowNode
   label?: string; // Optional text for the edge (e.g., condition, data passed)
-  type?: "DirectCall" | "ConditionalTrue" | "ConditionalFalse" | "AsyncCallback" | "DataFlow";
+  type?:
+    | "DirectCall"
+    | "ConditionalTrue"
+    | "ConditionalFalse"
+    | "AsyncCallback"
+    | "DataFlow"
+    | "Error";
   properties?: Record<string, any>;
 }
 
@@ -60,7 +79,7 @@ export interface CapturedFlow {
 }
 
 export interface ProjectFlows {
-  version: string; // To handle future schema changes
+  version: string; // Flows file format, see FLOW_FILE_VERSION in utilities/flowMigrations
   flows: CapturedFlow[];
 }
 
@@ -7,19 +7,211 @@ import {
   MethodDeclaration,
   ArrowFunction,
   SourceFile,
+  CallExpression,
+  IfStatement,
+  SwitchStatement,
+  ConditionalExpression,
+  ForStatement,
+  ForOfStatement,
+  ForInStatement,
+  WhileStatement,
+  DoStatement,
+  FunctionExpression,
+  PropertyAccessExpression,
+  SyntaxKind,
+  Identifier,
+  JsxElement,
+  JsxSelfClosingElement,
+  ReturnStatement,
+  ThrowStatement,
+  TryStatement,
+  BreakStatement,
+  ContinueStatement,
+  LabeledStatement,
+  Scope,
 } from "ts-morph";
 import { FlowNode, FlowEdge, CodeReference } from "../types/flowTypes";
 import { v4 as uuidv4 } from "uuid";
 import { Logger } from "./logger";
+import { matchesGlob } from "./globMatcher";
+import { CaptureOptions, findIgnoreRule, getCaptureOptions } from "./captureOptions";
+import { ProjectRegistry } from "./projectRegistry";
+import { collapseRepeatedCalls, keepPathsToTargets, markLoopBodies } from "./flowGraph";
+import { toDocumentPath } from "./documentPaths";
+import { CodeIndexService } from "./codeIndexService";
+import { CallHierarchyService } from "./callHierarchyService";
+
+// Array helpers that run their callback synchronously, before the call returns
+const SYNC_CALLBACK_METHODS = [
+  "forEach",
+  "map",
+  "filter",
+  "reduce",
+  "reduceRight",
+  "some",
+  "every",
+  "find",
+  "findIndex",
+  "flatMap",
+  "sort",
+];
+const LISTENER_METHODS = ["on", "once", "addListener", "prependListener", "addEventListener"];
+const PROMISE_CHAIN_METHODS = ["then", "catch", "finally"];
+const PROMISE_COMBINATORS = ["all", "allSettled", "race", "any"];
+// React hooks whose callback runs after render, and calls that return the function passed to them
+const EFFECT_HOOKS = ["useEffect", "useLayoutEffect", "useInsertionEffect"];
+const FUNCTION_WRAPPERS = ["useCallback", "memo", "forwardRef"];
+const EVENT_HANDLER_PROP = /^on[A-Z]/;
+// Extensions for documents that aren't on disk, by language id
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  typescript: ".ts",
+  typescriptreact: ".tsx",
+  javascript: ".js",
+  javascriptreact: ".jsx",
+};
+const VIRTUAL_DOCUMENTS_ROOT = "/__flowmaster_documents__";
+// Files ts-morph parses; other languages are captured through their language server
+const PARSABLE_FILE = /\.(?:[cm]?[jt]s|[jt]sx)$/i;
+const SOURCE_FILES_GLOB = "**/*.{ts,tsx,js,jsx}";
+const COMMAND_REGISTRATION_METHODS = ["registerCommand", "registerTextEditorCommand"];
+// Route registrations: `app.get("/users", handler)`, and the handlers Next.js API routes export
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete", "head", "options", "all"];
+const NEXT_PAGES_API_ROUTE = /(?:^|\/)pages(\/api(?:\/.*?)?)(?:\/index)?\.[jt]sx?$/;
+const NEXT_APP_ROUTE = /(?:^|\/)app((?:\/.*?)?)\/route\.[jt]sx?$/;
+
+// An edge that has a source but is still waiting for the next node in the flow
+interface PendingEdge {
+  from: string;
+  type: NonNullable<FlowEdge["type"]>;
+  label?: string;
+  properties?: Record<string, any>;
+}
+
+type FunctionLike = FunctionDeclaration | MethodDeclaration | ArrowFunction | FunctionExpression;
+
+// The `catch` of an enclosing try statement, collecting the edges of whatever may throw into it
+interface ErrorHandler {
+  tryBlock: Node;
+  edges: PendingEdge[];
+}
+
+// A loop, switch or labeled statement, collecting the edges of the `break`s and `continue`s that
+// jump out of it
+interface JumpTarget {
+  kind: "loop" | "switch" | "block"; // Only loops can be continued, blocks only left by label
+  label?: string; // Of a labeled statement, which `break label` and `continue label` name
+  breaks: PendingEdge[];
+  continues: PendingEdge[];
+}
+
+interface CallTarget {
+  name?: string; // Qualified name, e.g. FlowStorageService.getAllFlows
+  declaration: Node; // What the type checker resolved the call to (an overload, interface member...)
+  implementation?: FunctionLike; // The body that runs, when it is known
+  alternatives: FunctionLike[]; // Implementations or overrides that may run instead
+}
+
+interface EmittedEvent {
+  kind: "event" | "message";
+  name?: string; // Event name or message `command`; undefined when not a literal
+  channel?: "extension" | "dom"; // Which side receives a message
+  label: string;
+}
+
+interface ListenerRegistration {
+  kind: "event" | "message";
+  name?: string; // Event name; messages are matched on the `command` their handler checks
+  channel?: "extension" | "dom";
+  handlerExpression: Node;
+  site: CallExpression;
+}
+
+export interface HttpRoute {
+  method: string; // Upper case, `ALL` when the handler serves every method
+  path: string; // As registered, e.g. `/users/:id` or `/api/users/[id]`
+  codeReference: CodeReference; // The registration, or the exported handler for Next.js
+}
+
+interface RouteRegistration {
+  route: HttpRoute;
+  handlers: Node[]; // Middlewares and the handler, in the order they run
+}
+
+export interface RegisteredCommand {
+  id: string;
+  codeReference: CodeReference; // The `registerCommand` call
+}
+
+export interface ExportedFunction {
+  name: string; // As passed to `parseFunctionCalls`
+  qualifiedName: string; // `Class.method` for methods
+  filePath: string;
+  line: number; // 1-indexed, tells functions with the same name apart
+}
+
+interface CommandRegistration {
+  command: RegisteredCommand;
+  handler: Node;
+}
+
+interface ParseState {
+  project: Project; // The project of the file being captured
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  range?: { start: number; end: number }; // Selected character offsets in the captured file
+  options: CaptureOptions;
+  depth: number;
+  // Functions currently being expanded, keyed by declaration, mapped to the node that entered them
+  activeFunctions: Map<string, string>;
+  targetFunction?: string; // Declaration key of the function a call path search is looking for
+  // Names of the functions the code index knows may lead to the target, when it knows all calls
+  reachingFunctions?: Set<string>;
+  reachedTargets: string[]; // Call nodes that call the target function
+  listeners?: ListenerRegistration[]; // Collected from the workspace on the first emit
+  workspaceFiles?: SourceFile[]; // Loaded on the first listener or implementation search
+  implementations: Map<string, FunctionLike[]>; // Keyed by declaration of an overridable member
+  callNodes: Map<Node, string>; // Call expressions and the flow nodes created for them
+  // Call nodes keyed by the call that entered their function, their name and location, so a call
+  // visited again reuses its node while each expansion of a function gets nodes of its own
+  callSites: Map<string, string>;
+  expandedBy?: string; // The call node whose callee is being parsed, unset at the top level
+  valueSources: Map<string, { name: string; nodeIds: string[] }>; // Keyed by variable declaration
+  returnCollectors: PendingEdge[][]; // Exits of `return` statements, one list per function
+  jumpTargets: JumpTarget[]; // Innermost last, reset for each function
+  errorHandlers: ErrorHandler[]; // Innermost last
+}
 
 export class AstService {
-  private project: Project;
+  private projects: ProjectRegistry;
+  private callHierarchy: CallHierarchyService;
+  // Untitled and virtual documents get a made-up path in their project, mapped to their URI
+  private virtualPaths = new Map<string, string>();
+  // Code index version of each file as last read from disk, so unchanged files aren't read again
+  private parsedVersions = new WeakMap<SourceFile, number>();
 
-  constructor() {
-    this.project = new Project({
-      // Optionally configure compiler options if needed, or it will use tsconfig.json
-      // useInMemoryFileSystem: true, // Can be useful if you don't want to write to disk
-    });
+  // The index, once built, tells which workspace files are worth loading for a search, which
+  // loaded files changed, and which functions can't lead to the end of a call path
+  constructor(private codeIndex?: CodeIndexService) {
+    // One project per tsconfig.json/jsconfig.json, so aliases and compiler options resolve
+    this.projects = new ProjectRegistry();
+    // Captures files ts-morph can't parse through the language server's call hierarchy
+    this.callHierarchy = new CallHierarchyService();
+  }
+
+  /** Qualified names of the functions known to call `functionName`, from the code index. */
+  public getKnownCallers(functionName: string): string[] {
+    if (!this.codeIndex?.isReady()) {
+      return [];
+    }
+    const callers = this.codeIndex
+      .getCallers(functionName)
+      .map((call) => call.caller || path.basename(call.filePath));
+    return [...new Set(callers)];
+  }
+
+  /** Forgets the loaded projects, e.g. after a tsconfig.json/jsconfig.json changed. */
+  public resetProjects(): void {
+    this.projects.reset();
   }
 
   private createCodeReference(node: Node): CodeReference {
@@ -28,8 +220,9 @@ export class AstService {
     const endPos = node.getEnd();
     const start = sourceFile.getLineAndColumnAtPos(startPos);
     const end = sourceFile.getLineAndColumnAtPos(endPos);
+    const filePath = sourceFile.getFilePath();
     return {
-      filePath: sourceFile.getFilePath(),
+      filePath: this.virtualPaths.get(filePath) || filePath,
       range: {
         start: { line: start.line - 1, character: start.column - 1 }, // 0-indexed
         end: { line: end.line - 1, character: end.column - 1 },
@@ -41,40 +234,30 @@ export class AstService {
   public async parseFunctionCalls(
     filePath: string,
     functionName?: string, // If parsing a specific function
-    startLine?: number, // For range-based parsing
-    endLine?: number
+    line?: number, // 1-indexed, tells functions with the same name apart
+    selection?: CodeReference["range"] // For range-based parsing, 0-indexed like editor selections
   ): Promise<{ nodes: FlowNode[]; edges: FlowEdge[] }> {
     Logger.log(
-      `AST Service: Parsing ${filePath}, function: ${functionName}, range: ${startLine}-${endLine}`
+      `AST Service: Parsing ${filePath}, function: ${functionName}, line: ${line}, selection: ${
+        selection
+          ? `${selection.start.line}:${selection.start.character}-${selection.end.line}:${selection.end.character}`
+          : undefined
+      }`
     );
     const nodes: FlowNode[] = [];
     const edges: FlowEdge[] = [];
-    let sourceFile: SourceFile;
-
-    try {
-      // Check if file already exists in project to avoid re-adding
-      const existingSourceFile = this.project.getSourceFile(filePath);
-      if (existingSourceFile) {
-        // Refresh from disk to ensure it's up-to-date
-        await existingSourceFile.refreshFromFileSystem();
-        sourceFile = existingSourceFile;
-      } else {
-        sourceFile = this.project.addSourceFileAtPath(filePath);
-      }
-      await sourceFile.refreshFromFileSystem(); // Ensure content is fresh
-    } catch (error) {
-      Logger.error(`AST Service: Error adding or refreshing source file ${filePath}`, error);
-      vscode.window.showErrorMessage(
-        `Flow Master: Could not parse file ${filePath}. Ensure it's a valid TypeScript/JavaScript file.`
-      );
-      return { nodes: [], edges: [] };
+    const sourceFile = this.isParsable(filePath) ? await this.getSourceFile(filePath) : undefined;
+    if (!sourceFile) {
+      Logger.log(`AST Service: Capturing ${filePath} through the call hierarchy instead.`);
+      return this.callHierarchy.parseFunctionCalls(filePath, functionName, line, selection);
     }
 
     let entryNodeId: string | null = null;
     let rootNodeToScan: Node | undefined = sourceFile;
+    let range: ParseState["range"];
 
     if (functionName) {
-      const foundFunction = this.findFunctionByName(sourceFile, functionName, startLine);
+      const foundFunction = this.findFunctionByName(sourceFile, functionName, line);
       if (foundFunction) {
         rootNodeToScan = foundFunction;
         const funcNodeId = uuidv4();
@@ -91,22 +274,32 @@ export class AstService {
           `AST Service: Function ${functionName} not found in ${filePath}. Parsing whole file or specified range.`
         );
       }
-    } else if (startLine !== undefined && endLine !== undefined) {
-      // For arbitrary range, create a conceptual entry point.
-      // The actual parsing of calls will happen on all nodes within this range.
+    } else if (selection) {
+      // For arbitrary range, create a conceptual entry point referencing the enclosing block.
+      // The walker only visits the statements within the selected characters.
       const rangeNodeId = uuidv4();
       entryNodeId = rangeNodeId;
-      // Find the top-most encompassing node for the range or just use sourceFile.
-      // This is a simplification; more precise range analysis would be complex.
+      range = {
+        start: this.getOffset(sourceFile, selection.start),
+        end: this.getOffset(sourceFile, selection.end),
+      };
+      const block = this.findEnclosingBlock(sourceFile, range);
+      const blockOwner = block.getParent();
       nodes.push({
         id: rangeNodeId,
-        label: `Code Block (Lines ${startLine}-${endLine})`,
+        label: `Code Block (Lines ${selection.start.line + 1}-${selection.end.line + 1})`,
         type: "EntryPoint",
-        description: `Selected code block in ${path.basename(filePath)}`,
-        // No direct codeReference for the block itself unless we find an encompassing node.
+        description: `Selected code block in ${
+          (blockOwner && Node.isFunctionLikeDeclaration(blockOwner)
+            ? this.getQualifiedName(blockOwner)
+            : undefined) || path.basename(filePath)
+        }`,
+        codeReference: this.createCodeReference(
+          Node.isSourceFile(block) && block.getFullText().length > 0
+            ? block.getChildSyntaxListOrThrow()
+            : block
+        ),
       });
-      // Limit scanning to nodes within the range (approximate)
-      // This requires iterating descendants and checking line numbers.
     } else {
       const fileNodeId = uuidv4();
       entryNodeId = fileNodeId;
@@ -126,147 +319,2507 @@ export class AstService {
       return { nodes, edges };
     }
 
-    let lastProcessedNodeId = entryNodeId;
+    const state: ParseState = {
+      project: sourceFile.getProject(),
+      nodes,
+      edges,
+      range,
+      options: getCaptureOptions(),
+      depth: 0,
+      activeFunctions: new Map(),
+      reachedTargets: [],
+      callNodes: new Map(),
+      callSites: new Map(),
+      implementations: new Map(),
+      valueSources: new Map(),
+      returnCollectors: [],
+      jumpTargets: [],
+      errorHandlers: [],
+    };
+    if (Node.isFunctionLikeDeclaration(rootNodeToScan)) {
+      state.activeFunctions.set(this.getDeclarationKey(rootNodeToScan), entryNodeId);
+    }
+    this.visitFunction(rootNodeToScan, [{ from: entryNodeId, type: "DirectCall" }], state);
+
+    const flow = this.normalizeFlow(nodes, edges);
+    Logger.log(
+      `AST Service: Parsing complete. Nodes: ${flow.nodes.length}, Edges: ${flow.edges.length}`
+    );
+    return flow;
+  }
 
-    rootNodeToScan.forEachDescendant((node, traversal) => {
-      // If range is specified, skip nodes outside the range
-      if (startLine !== undefined && endLine !== undefined) {
-        const nodeStartLine = node.getStartLineNumber();
-        const nodeEndLine = node.getEndLineNumber();
-        if (nodeStartLine < startLine || nodeEndLine > endLine) {
-          // If node is completely outside, skip its children too
-          if (nodeEndLine < startLine || nodeStartLine > endLine) {
-            traversal.skip();
-          }
-          return; // Continue to next descendant if partially overlapping or just skip
-        }
+  /**
+   * Builds the call graph reachable from the start function and keeps only the paths that end
+   * in a call to the end function. `targetNodeIds` lists the nodes calling the end function and
+   * is empty when no path was found.
+   */
+  public async findCallPaths(
+    startFilePath: string,
+    startFunctionName: string,
+    startLine: number,
+    endFilePath: string,
+    endFunctionName: string,
+    endLine: number
+  ): Promise<{ nodes: FlowNode[]; edges: FlowEdge[]; targetNodeIds: string[] }> {
+    Logger.log(
+      `AST Service: Searching call paths from ${startFunctionName} (${startFilePath}) to ${endFunctionName} (${endFilePath})`
+    );
+    const noPath = { nodes: [], edges: [], targetNodeIds: [] };
+    if (!this.isParsable(startFilePath) || !this.isParsable(endFilePath)) {
+      Logger.log("AST Service: Searching call paths through the call hierarchy instead.");
+      return this.callHierarchy.findCallPaths(
+        startFilePath,
+        startFunctionName,
+        startLine,
+        endFilePath,
+        endFunctionName,
+        endLine
+      );
+    }
+    const startFile = await this.getSourceFile(startFilePath);
+    const endFile = startFile && (await this.getSourceFile(endFilePath, startFile.getProject()));
+    if (!startFile || !endFile) {
+      return noPath;
+    }
+    const startFunction = this.findFunctionByName(startFile, startFunctionName, startLine);
+    const endFunction = this.findFunctionByName(endFile, endFunctionName, endLine);
+    if (!startFunction || !endFunction) {
+      Logger.error(
+        `AST Service: Could not find ${
+          startFunction ? endFunctionName : startFunctionName
+        } for call path search.`
+      );
+      return noPath;
+    }
+    const reachingFunctions = this.getFunctionsReaching(endFunction);
+    if (reachingFunctions && this.cannotReachTarget(startFunction, reachingFunctions)) {
+      Logger.log(`AST Service: The code index knows no call path to ${endFunctionName}.`);
+      return noPath;
+    }
+
+    const entryNodeId = uuidv4();
+    const options = getCaptureOptions();
+    const state: ParseState = {
+      project: startFile.getProject(),
+      nodes: [
+        {
+          id: entryNodeId,
+          label: startFunctionName,
+          type: "EntryPoint",
+          codeReference: this.createCodeReference(startFunction),
+          description: `Entry point: ${startFunctionName}`,
+        },
+      ],
+      edges: [],
+      options: { ...options, maxDepth: options.maxPathSearchDepth },
+      depth: 0,
+      activeFunctions: new Map([[this.getDeclarationKey(startFunction), entryNodeId]]),
+      targetFunction: this.getDeclarationKey(endFunction),
+      reachingFunctions,
+      reachedTargets: [],
+      callNodes: new Map(),
+      callSites: new Map(),
+      implementations: new Map(),
+      valueSources: new Map(),
+      returnCollectors: [],
+      jumpTargets: [],
+      errorHandlers: [],
+    };
+    this.visitFunction(startFunction, [{ from: entryNodeId, type: "DirectCall" }], state);
+
+    if (state.reachedTargets.length === 0) {
+      Logger.log(`AST Service: No call path found to ${endFunctionName}.`);
+      return noPath;
+    }
+    const kept = keepPathsToTargets(state.nodes, state.edges, entryNodeId, state.reachedTargets);
+    const paths = this.normalizeFlow(kept.nodes, kept.edges);
+    // Merged calls keep the ID of their last occurrence
+    const targetNodeIds = state.reachedTargets.filter((id) =>
+      paths.nodes.some((node) => node.id === id)
+    );
+    Logger.log(
+      `AST Service: Found ${state.reachedTargets.length} call site(s) of ${endFunctionName}. Nodes: ${paths.nodes.length}, Edges: ${paths.edges.length}`
+    );
+    return { ...paths, targetNodeIds };
+  }
+
+  /**
+   * Finds the HTTP routes registered in the workspace: Express/Koa router methods such as
+   * `app.get(...)`, Fastify `route({...})` and Next.js API route files.
+   */
+  public async findHttpRoutes(): Promise<HttpRoute[]> {
+    const sourceFiles = await this.getEntryPointSourceFiles(
+      (method) => HTTP_METHODS.includes(method) || method === "route",
+      (relativePath) => !!this.getNextRoutePath(relativePath)
+    );
+    const routes = sourceFiles.flatMap((sourceFile) =>
+      this.getRouteRegistrations(sourceFile).map((registration) => registration.route)
+    );
+    Logger.log(`AST Service: Found ${routes.length} HTTP routes in ${sourceFiles.length} files.`);
+    return routes;
+  }
+
+  /** Captures the flow of a route found by `findHttpRoutes`, through its middlewares and handler. */
+  public async parseHttpRoute(route: HttpRoute): Promise<{ nodes: FlowNode[]; edges: FlowEdge[] }> {
+    const label = `${route.method} ${route.path}`;
+    Logger.log(`AST Service: Parsing HTTP route ${label}`);
+    const sourceFile = await this.getSourceFile(route.codeReference.filePath);
+    const registration =
+      sourceFile &&
+      this.getRouteRegistrations(sourceFile).find(
+        (candidate) =>
+          candidate.route.method === route.method &&
+          candidate.route.path === route.path &&
+          candidate.route.codeReference.range.start.line === route.codeReference.range.start.line
+      );
+    if (!sourceFile || !registration) {
+      Logger.error(`AST Service: HTTP route ${label} is no longer registered.`);
+      return { nodes: [], edges: [] };
+    }
+
+    // Each middleware runs before the next one, the last one usually sends the response
+    return this.parseHandlers(registration.handlers, "Route", sourceFile.getProject(), {
+      id: uuidv4(),
+      label,
+      type: "EntryPoint",
+      codeReference: route.codeReference,
+      description: `HTTP route ${label}`,
+    });
+  }
+
+  /**
+   * Lists the entry points worth a flow in a folder: exported functions and arrow functions,
+   * and the public methods of exported classes. `parseFunctionCalls` captures each of them.
+   */
+  public async findExportedFunctions(
+    folder: vscode.Uri,
+    token?: vscode.CancellationToken
+  ): Promise<ExportedFunction[]> {
+    const functions: ExportedFunction[] = [];
+    const files = await this.findSourceFilePaths(
+      new vscode.RelativePattern(folder, SOURCE_FILES_GLOB)
+    );
+    for (const { filePath } of files) {
+      if (token?.isCancellationRequested) {
+        break;
       }
+      const sourceFile = await this.getSourceFile(filePath);
+      if (sourceFile) {
+        functions.push(...this.getExportedFunctions(sourceFile));
+      }
+    }
+    Logger.log(`AST Service: Found ${functions.length} exported functions in ${folder.fsPath}.`);
+    return functions;
+  }
 
-      if (Node.isCallExpression(node)) {
-        const callee = node.getExpression();
-        let callName = callee.getText(); // Simplified; could be obj.method, etc.
+  /**
+   * Finds the `registerCommand`/`registerTextEditorCommand` calls in the workspace whose command
+   * ID is a string literal or a constant.
+   */
+  public async findRegisteredCommands(): Promise<RegisteredCommand[]> {
+    const sourceFiles = await this.getEntryPointSourceFiles((method) =>
+      COMMAND_REGISTRATION_METHODS.includes(method)
+    );
+    const commands = sourceFiles.flatMap((sourceFile) =>
+      this.getCommandRegistrations(sourceFile).map((registration) => registration.command)
+    );
+    Logger.log(`AST Service: Found ${commands.length} registered commands.`);
+    return commands;
+  }
 
-        if (Node.isIdentifier(callee)) {
-          callName = callee.getText();
-        } else if (Node.isPropertyAccessExpression(callee)) {
-          callName = `${callee.getExpression().getText()}.${callee.getName()}`;
-        }
+  /** Captures the flow of a command found by `findRegisteredCommands`, through its handler. */
+  public async parseRegisteredCommand(
+    command: RegisteredCommand
+  ): Promise<{ nodes: FlowNode[]; edges: FlowEdge[] }> {
+    Logger.log(`AST Service: Parsing command ${command.id}`);
+    const sourceFile = await this.getSourceFile(command.codeReference.filePath);
+    const registration =
+      sourceFile &&
+      this.getCommandRegistrations(sourceFile).find(
+        (candidate) => candidate.command.id === command.id
+      );
+    if (!sourceFile || !registration) {
+      Logger.error(`AST Service: Command ${command.id} is no longer registered.`);
+      return { nodes: [], edges: [] };
+    }
+    return this.parseHandlers([registration.handler], "Command", sourceFile.getProject(), {
+      id: uuidv4(),
+      label: command.id,
+      type: "EntryPoint",
+      codeReference: command.codeReference,
+      description: `Command ${command.id}`,
+    });
+  }
 
-        const existingNode = nodes.find(
-          (n) =>
-            n.label === callName &&
-            JSON.stringify(n.codeReference) === JSON.stringify(this.createCodeReference(callee))
+  // Loads a file into the project of its nearest config, or into `project` when given (so a
+  // call path search resolves both ends with the same compiler options)
+  private async getSourceFile(
+    filePath: string,
+    project?: Project
+  ): Promise<SourceFile | undefined> {
+    try {
+      const document = this.findOpenDocument(filePath);
+      const projectPath = document ? this.getProjectPath(document) : filePath;
+      if (!project) {
+        project = this.projects.getProjectForFile(projectPath);
+        const configPath = this.projects.findConfigForFile(projectPath);
+        Logger.log(
+          `AST Service: ${path.basename(filePath)} uses ${
+            configPath || "default compiler options (no tsconfig.json/jsconfig.json found)"
+          }`
         );
-        let callNodeId: string;
+        this.syncOpenDocuments(project);
+      }
+      // Check if file already exists in project to avoid re-adding
+      const sourceFile =
+        project.getSourceFile(projectPath) ||
+        (document && this.hasUnsavedText(document)
+          ? this.syncWithDocument(project, projectPath, document)
+          : this.markParsed(project.addSourceFileAtPath(projectPath)));
+      this.refreshSourceFile(sourceFile); // Ensure content is fresh
+      return sourceFile;
+    } catch (error) {
+      Logger.error(`AST Service: Error adding or refreshing source file ${filePath}`, error);
+      vscode.window.showErrorMessage(
+        `Flow Master: Could not parse file ${filePath}. Ensure it's a valid TypeScript/JavaScript file.`
+      );
+      return undefined;
+    }
+  }
 
-        if (existingNode) {
-          callNodeId = existingNode.id;
-        } else {
-          callNodeId = uuidv4();
-          nodes.push({
-            id: callNodeId,
-            label: callName,
-            type: "Function",
-            codeReference: this.createCodeReference(callee),
-            description: `Call to ${callName}`,
-          });
-        }
+  // --- Documents ---
+  // Open documents are what the user sees: they may have unsaved changes, or not be on disk at
+  // all (untitled documents, virtual workspaces). Their text wins over the file on disk.
 
-        // Create an edge from the last processed node (function or previous call)
-        // This is a sequential flow assumption, needs refinement for control flow.
-        if (lastProcessedNodeId && lastProcessedNodeId !== callNodeId) {
-          const edgeId = uuidv4();
-          edges.push({
-            id: edgeId,
-            from: lastProcessedNodeId,
-            to: callNodeId,
-            type: "DirectCall",
-          });
+  // Whether ts-morph can parse the file, going by its open document's language or its extension
+  private isParsable(filePath: string): boolean {
+    const document = this.findOpenDocument(filePath);
+    return document
+      ? DOCUMENT_EXTENSIONS[document.languageId] !== undefined
+      : PARSABLE_FILE.test(filePath);
+  }
+
+  private findOpenDocument(filePath: string): vscode.TextDocument | undefined {
+    const normalizedPath = path.normalize(filePath);
+    return vscode.workspace.textDocuments.find(
+      (document) => path.normalize(toDocumentPath(document.uri)) === normalizedPath
+    );
+  }
+
+  private hasUnsavedText(document: vscode.TextDocument): boolean {
+    return document.isDirty || document.uri.scheme !== "file";
+  }
+
+  private getProjectPath(document: vscode.TextDocument): string {
+    if (document.uri.scheme === "file") {
+      return document.uri.fsPath;
+    }
+    const { scheme, authority } = document.uri;
+    let projectPath = path.posix.join(VIRTUAL_DOCUMENTS_ROOT, scheme, authority, document.uri.path);
+    if (!/\.[cm]?[jt]sx?$/.test(projectPath)) {
+      projectPath += DOCUMENT_EXTENSIONS[document.languageId] || ".ts"; // e.g. Untitled-1
+    }
+    this.virtualPaths.set(projectPath, toDocumentPath(document.uri));
+    return projectPath;
+  }
+
+  private syncWithDocument(
+    project: Project,
+    projectPath: string,
+    document: vscode.TextDocument
+  ): SourceFile {
+    const sourceFile = project.getSourceFile(projectPath);
+    if (sourceFile && sourceFile.getFullText() === document.getText()) {
+      return sourceFile;
+    }
+    return project.createSourceFile(projectPath, document.getText(), { overwrite: true });
+  }
+
+  // Unsaved changes in other open files matter too, once calls are followed into them
+  private syncOpenDocuments(project: Project): void {
+    vscode.workspace.textDocuments
+      .filter(
+        (document) => DOCUMENT_EXTENSIONS[document.languageId] && this.hasUnsavedText(document)
+      )
+      .forEach((document) => {
+        const projectPath = this.getProjectPath(document);
+        if (this.projects.getProjectForFile(projectPath) === project) {
+          this.syncWithDocument(project, projectPath, document);
         }
-        lastProcessedNodeId = callNodeId; // Update for next call in sequence
+      });
+  }
 
-        // Future: Recursively parse called functions if they are in the project
-        // For now, just list the call.
+  // Files on disk are only read again when the code index saw them change since, or when it
+  // can't tell
+  private refreshSourceFile(sourceFile: SourceFile): void {
+    const projectPath = sourceFile.getFilePath();
+    const virtualPath = this.virtualPaths.get(projectPath);
+    const document = this.findOpenDocument(virtualPath || projectPath);
+    if (document && this.hasUnsavedText(document)) {
+      const synced = this.syncWithDocument(sourceFile.getProject(), projectPath, document);
+      this.parsedVersions.delete(synced); // Not the text on disk anymore
+    } else if (!virtualPath) {
+      // A closed virtual document keeps its last text, files on disk are read if they changed
+      const version = this.codeIndex?.getFileVersion(projectPath);
+      if (version === undefined || version !== this.parsedVersions.get(sourceFile)) {
+        sourceFile.refreshFromFileSystemSync();
+        this.markParsed(sourceFile);
       }
-      // TODO: Add handlers for IfStatement, ForStatement, WhileStatement, SwitchStatement etc.
-      // to represent control flow. This would involve creating Condition nodes and multiple edges.
+    }
+  }
+
+  // Records which version of the file on disk was just read
+  private markParsed(sourceFile: SourceFile): SourceFile {
+    const version = this.codeIndex?.getFileVersion(sourceFile.getFilePath());
+    if (version === undefined) {
+      this.parsedVersions.delete(sourceFile);
+    } else {
+      this.parsedVersions.set(sourceFile, version);
+    }
+    return sourceFile;
+  }
+
+  // --- Control flow walker ---
+  // Each visit receives the edges still waiting for a target ("incoming") and returns the
+  // edges that leave the visited node. Branches fan out from a Condition node and their
+  // exits are returned together, so they join on whatever node is visited next.
+
+  private visit(node: Node, incoming: PendingEdge[], state: ParseState): PendingEdge[] {
+    const placement = this.getRangePlacement(node, state);
+    if (placement === "outside") {
+      return incoming; // Completely outside the range, skip its children too
+    }
+    if (placement === "partial") {
+      if (!this.isCutByRange(node, state)) {
+        return this.visitChildren(node, incoming, state); // Only descendants can be in range
+      }
+      // The selection starts or ends in the middle of this statement
+      if (state.options.partialStatements === "exclude") {
+        return incoming;
+      }
+      const { range } = state;
+      state.range = undefined;
+      const exits = this.visit(node, incoming, state);
+      state.range = range;
+      return exits;
+    }
+
+    if (Node.isIfStatement(node)) {
+      return this.visitIfStatement(node, incoming, state);
+    }
+    if (Node.isSwitchStatement(node)) {
+      return this.visitSwitchStatement(node, incoming, state);
+    }
+    if (Node.isConditionalExpression(node)) {
+      return this.visitConditionalExpression(node, incoming, state);
+    }
+    if (
+      Node.isForStatement(node) ||
+      Node.isForOfStatement(node) ||
+      Node.isForInStatement(node) ||
+      Node.isWhileStatement(node) ||
+      Node.isDoStatement(node)
+    ) {
+      return this.visitLoop(node, incoming, state);
+    }
+    if (Node.isFunctionLikeDeclaration(node)) {
+      // A nested function or method runs where it is called, which expands it, not where it is
+      // defined. Only the callback of a `new`, e.g. a Promise executor, runs right away.
+      return Node.isNewExpression(node.getParent())
+        ? this.visitFunction(node, incoming, state) // Its returns don't end the outer function
+        : incoming;
+    }
+    if (Node.isLabeledStatement(node)) {
+      return this.visitLabeledStatement(node, incoming, state);
+    }
+    if (Node.isReturnStatement(node)) {
+      return this.visitReturnStatement(node, incoming, state);
+    }
+    if (Node.isBreakStatement(node) || Node.isContinueStatement(node)) {
+      return this.visitJumpStatement(node, incoming, state);
+    }
+    if (Node.isThrowStatement(node)) {
+      return this.visitThrowStatement(node, incoming, state);
+    }
+    if (Node.isTryStatement(node)) {
+      return this.visitTryStatement(node, incoming, state);
+    }
+    if (Node.isAwaitExpression(node)) {
+      const operand = this.skipParentheses(node.getExpression());
+      if (Node.isCallExpression(operand) && this.isPromiseChainCall(operand)) {
+        // Awaiting a chain resumes once its last handler has run
+        return this.visitPromiseChain(operand, incoming, state).asyncExits;
+      }
+    }
+    if (Node.isVariableDeclaration(node)) {
+      const exits = this.visitChildren(node, incoming, state);
+      const initializer = node.getInitializer();
+      if (initializer) {
+        this.recordAssignment(node.getNameNode(), initializer, state);
+      }
+      return exits;
+    }
+    if (Node.isBinaryExpression(node) && node.getOperatorToken().getText() === "=") {
+      const exits = this.visitChildren(node, incoming, state);
+      this.recordAssignment(node.getLeft(), node.getRight(), state);
+      return exits;
+    }
+    if (
+      state.options.followComponents &&
+      (Node.isJsxElement(node) || Node.isJsxSelfClosingElement(node))
+    ) {
+      return this.visitJsxElement(node, incoming, state);
+    }
+    if (Node.isCallExpression(node)) {
+      if (this.isPromiseChainCall(node)) {
+        return this.visitPromiseChain(node, incoming, state).syncExits;
+      }
+      return this.visitCallExpression(node, incoming, state);
+    }
+    return this.visitChildren(node, incoming, state);
+  }
+
+  private visitChildren(node: Node, incoming: PendingEdge[], state: ParseState): PendingEdge[] {
+    let current = incoming;
+    node.forEachChild((child) => {
+      current = this.visit(child, current, state);
     });
-    Logger.log(`AST Service: Parsing complete. Nodes: ${nodes.length}, Edges: ${edges.length}`);
-    return { nodes, edges };
+    return current;
   }
 
-  private findFunctionByName(
-    sourceFile: SourceFile,
-    functionName: string,
-    targetLine?: number
-  ): FunctionDeclaration | MethodDeclaration | ArrowFunction | undefined {
-    const functions = sourceFile.getFunctions();
-    let foundFunc: FunctionDeclaration | MethodDeclaration | ArrowFunction | undefined;
+  // Visits a function body: it exits where it falls off the end and at each `return`. The body
+  // of a deferred function (a callback run later) can't throw into the caller's `try`.
+  private visitFunction(
+    body: Node,
+    incoming: PendingEdge[],
+    state: ParseState,
+    deferred: boolean = false
+  ): PendingEdge[] {
+    const returns: PendingEdge[] = [];
+    const { errorHandlers, jumpTargets } = state;
+    state.returnCollectors.push(returns);
+    state.jumpTargets = []; // A `break` can't leave the function
+    if (deferred) {
+      state.errorHandlers = [];
+    }
+    const exits = this.visitChildren(body, incoming, state);
+    Object.assign(state, { errorHandlers, jumpTargets });
+    state.returnCollectors.pop();
+    return [...exits, ...returns];
+  }
 
-    foundFunc = functions.find(
-      (f) =>
-        f.getName() === functionName &&
-        (targetLine === undefined || this.isNodeAroundLine(f, targetLine))
+  private visitCallExpression(
+    node: CallExpression,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const callee = node.getExpression();
+    // Calls in the callee chain and in the arguments run before the call itself
+    let current = this.visit(callee, incoming, state);
+    const callbacks: (ArrowFunction | FunctionExpression)[] = [];
+    const fanOutElements = this.getPromiseCombinatorElements(node);
+    if (fanOutElements) {
+      // Promise.all and friends start every element at once and continue when they settle
+      const settled: PendingEdge[] = [];
+      fanOutElements.forEach((element) => {
+        this.visit(element, current, state).forEach((exit) =>
+          settled.push({ ...exit, type: "AsyncCallback", label: "settled" })
+        );
+      });
+      current = settled.length > 0 ? settled : current;
+    } else {
+      node.getArguments().forEach((arg) => {
+        if (Node.isArrowFunction(arg) || Node.isFunctionExpression(arg)) {
+          callbacks.push(arg); // Callbacks run after the call starts, not before it
+        } else {
+          current = this.visit(arg, current, state);
+        }
+      });
+    }
+
+    const emitted = this.getEmittedEvent(node);
+    if (emitted) {
+      return this.visitEventEmit(node, emitted, current, state);
+    }
+
+    const target = this.resolveCallTarget(node, state);
+    let callName = callee.getText(); // Used when the type checker can't name the callee
+    if (target?.name) {
+      callName = target.name;
+    } else if (Node.isPropertyAccessExpression(callee)) {
+      callName = `${callee.getExpression().getText()}.${callee.getName()}`;
+    }
+
+    const codeReference: CodeReference = {
+      ...this.createCodeReference(callee),
+      declaration: target && this.createCodeReference(target.declaration),
+    };
+    const callSiteKey = `${state.expandedBy}|${callName}|${JSON.stringify(codeReference)}`;
+    const existingNodeId = state.callSites.get(callSiteKey);
+    if (existingNodeId) {
+      this.connect(current, existingNodeId, state);
+      state.callNodes.set(node, existingNodeId);
+      return [{ from: existingNodeId, type: "DirectCall" }];
+    }
+
+    const awaited = Node.isAwaitExpression(this.getParentSkippingParentheses(node));
+    const hookName = state.options.followComponents ? this.getCalleeName(callee) : undefined;
+    const isEffect = hookName !== undefined && EFFECT_HOOKS.includes(hookName);
+    const alternatives = (target?.alternatives || []).map((alternative) => ({
+      label: this.getQualifiedName(alternative) || callName,
+      codeReference: this.createCodeReference(alternative),
+    }));
+    const hiddenBy = this.findIgnoreRuleForCall(callee, callName, target, state);
+    const properties: Record<string, any> = {};
+    if (awaited) {
+      properties.awaited = true;
+    }
+    if (alternatives.length > 0) {
+      properties.alternatives = alternatives;
+    }
+    if (hiddenBy) {
+      // Kept in the flow so the graph view can show hidden calls on request
+      properties.hidden = true;
+      properties.hiddenBy = hiddenBy;
+    }
+    const callNodeId = this.addFlowNode(
+      {
+        label: awaited ? `await ${callName}` : callName,
+        type: isEffect ? "Effect" : "Function",
+        codeReference,
+        description:
+          (isEffect
+            ? `Effect ${callName}, runs after render`
+            : `${awaited ? "Awaited call" : "Call"} to ${callName}`) +
+          (alternatives.length > 0
+            ? ` (may run ${alternatives.map((alternative) => alternative.label).join(", ")})`
+            : ""),
+        properties: Object.keys(properties).length > 0 ? properties : undefined,
+      },
+      current,
+      state
     );
-    if (foundFunc) return foundFunc;
+    state.callNodes.set(node, callNodeId);
+    state.callSites.set(callSiteKey, callNodeId);
+    this.addDataFlowEdges(node, callNodeId, state);
+    this.addErrorEdge(node, callNodeId, state);
+    // A path search may reach its target through any of the implementations
+    const declaration =
+      target?.alternatives.find(
+        (alternative) => this.getDeclarationKey(alternative) === state.targetFunction
+      ) || target?.implementation;
+    // The body of a hidden call is noise too, unless a path search has to go through it
+    let exits =
+      hiddenBy && !state.targetFunction
+        ? [{ from: callNodeId, type: "DirectCall" as const }]
+        : this.expandCall(callee, declaration, callNodeId, state);
 
-    sourceFile.getClasses().forEach((c) => {
-      if (foundFunc) return;
-      foundFunc = c
-        .getMethods()
-        .find(
-          (m) =>
-            m.getName() === functionName &&
-            (targetLine === undefined || this.isNodeAroundLine(m, targetLine))
+    const methodName = Node.isPropertyAccessExpression(callee) ? callee.getName() : undefined;
+    callbacks.forEach((callback) => {
+      if ((methodName && SYNC_CALLBACK_METHODS.includes(methodName)) || hookName === "useMemo") {
+        exits = this.visitFunction(callback, exits, state); // e.g. forEach runs it right away
+      } else if (hookName && FUNCTION_WRAPPERS.includes(hookName)) {
+        // e.g. useCallback: the callback runs where the returned function is called or passed
+      } else {
+        // Anything else may run the callback later: keep it as a deferred sub-flow
+        this.visitFunction(
+          callback,
+          [
+            {
+              from: callNodeId,
+              type: "AsyncCallback",
+              label: isEffect ? "after render" : "callback",
+            },
+          ],
+          state,
+          true
         );
-      if (foundFunc) return;
-      // Check for arrow function properties
-      c.getProperties().forEach((p) => {
-        if (foundFunc) return;
-        const initializer = p.getInitializer();
-        if (
-          initializer &&
-          Node.isArrowFunction(initializer) &&
-          p.getName() === functionName &&
-          (targetLine === undefined || this.isNodeAroundLine(p, targetLine))
-        ) {
-          foundFunc = initializer;
+      }
+    });
+    return exits;
+  }
+
+  // Returns a description of the first ignore rule matching the call, if any
+  private findIgnoreRuleForCall(
+    callee: Node,
+    callName: string,
+    target: CallTarget | undefined,
+    state: ParseState
+  ): string | undefined {
+    return findIgnoreRule(state.options.ignore, {
+      names: [callName, callee.getText()],
+      modulePath: target?.declaration.getSourceFile().getFilePath(),
+      getReceiverType: () => this.getReceiverTypeName(callee),
+    });
+  }
+
+  // `Array` for `items.map(...)`, `Logger` for `Logger.log(...)`
+  private getReceiverTypeName(callee: Node): string | undefined {
+    if (!Node.isPropertyAccessExpression(callee)) {
+      return undefined;
+    }
+    try {
+      const type = callee.getExpression().getType();
+      return (type.getSymbol() || type.getApparentType().getSymbol())?.getName();
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  // --- Data flow ---
+  // Variables assigned from a call remember which flow node produced their value. When such a
+  // variable is later passed to another call, a DataFlow edge links the producer to that call.
+
+  private recordAssignment(target: Node, value: Node, state: ParseState): void {
+    const unwrappedValue = this.unwrapExpression(
+      Node.isAwaitExpression(value) ? value.getExpression() : value
+    );
+    const combinatorElements = Node.isCallExpression(unwrappedValue)
+      ? this.getPromiseCombinatorElements(unwrappedValue)
+      : undefined;
+    if (Node.isArrayBindingPattern(target) && combinatorElements) {
+      // `const [a, b] = await Promise.all([getA(), getB()])` pairs each name with its element
+      target.getElements().forEach((element, index) => {
+        const elementValue = combinatorElements[index];
+        if (Node.isBindingElement(element) && elementValue) {
+          this.recordAssignment(element.getNameNode(), elementValue, state);
         }
       });
-    });
-    if (foundFunc) return foundFunc;
+      return;
+    }
 
-    // Check top-level variable declarations for arrow functions
-    sourceFile.getVariableDeclarations().forEach((vd) => {
-      if (foundFunc) return;
-      const initializer = vd.getInitializer();
-      if (
-        Node.isArrowFunction(initializer) &&
-        vd.getName() === functionName &&
-        (targetLine === undefined || this.isNodeAroundLine(vd, targetLine))
-      ) {
-        foundFunc = initializer;
+    const producers = this.getValueProducers(value, state);
+    this.getAssignedIdentifiers(target).forEach((identifier) => {
+      const key = this.getVariableKey(identifier);
+      if (key) {
+        // Reassigning from something that isn't a call drops the previous producers
+        state.valueSources.set(key, { name: identifier.getText(), nodeIds: producers });
       }
     });
-
-    return foundFunc;
   }
 
-  private isNodeAroundLine(node: Node, targetLine: number): boolean {
-    const startLine = node.getStartLineNumber();
-    const endLine = node.getEndLineNumber();
-    return targetLine >= startLine && targetLine <= endLine;
+  private getValueProducers(value: Node, state: ParseState): string[] {
+    const expression = this.unwrapExpression(value);
+    if (Node.isAwaitExpression(expression)) {
+      return this.getValueProducers(expression.getExpression(), state);
+    }
+    if (Node.isCallExpression(expression)) {
+      const nodeId = state.callNodes.get(expression);
+      return nodeId ? [nodeId] : [];
+    }
+    if (Node.isConditionalExpression(expression)) {
+      return [
+        ...this.getValueProducers(expression.getWhenTrue(), state),
+        ...this.getValueProducers(expression.getWhenFalse(), state),
+      ];
+    }
+    if (
+      Node.isBinaryExpression(expression) &&
+      ["||", "??"].includes(expression.getOperatorToken().getText())
+    ) {
+      return [
+        ...this.getValueProducers(expression.getLeft(), state),
+        ...this.getValueProducers(expression.getRight(), state),
+      ];
+    }
+    if (Node.isIdentifier(expression)) {
+      const key = this.getVariableKey(expression);
+      return (key && state.valueSources.get(key)?.nodeIds) || []; // `const copy = original`
+    }
+    return [];
   }
 
-  public async getFunctionNameAtCursor(
-    filePath: string,
+  // The variables written by an assignment target, including destructured names
+  private getAssignedIdentifiers(target: Node): Identifier[] {
+    if (Node.isIdentifier(target)) {
+      return [target];
+    }
+    if (Node.isObjectBindingPattern(target) || Node.isArrayBindingPattern(target)) {
+      return target
+        .getElements()
+        .flatMap((element) =>
+          Node.isBindingElement(element) ? this.getAssignedIdentifiers(element.getNameNode()) : []
+        );
+    }
+    if (Node.isObjectLiteralExpression(target) || Node.isArrayLiteralExpression(target)) {
+      // Destructuring assignment: `[a, b] = ...` or `({ a, b: c } = ...)`
+      return target
+        .getDescendantsOfKind(SyntaxKind.Identifier)
+        .filter((identifier) => this.isValueReference(identifier));
+    }
+    return [];
+  }
+
+  private addDataFlowEdges(node: CallExpression, consumerNodeId: string, state: ParseState): void {
+    node.getArguments().forEach((arg) => {
+      const identifiers = Node.isIdentifier(arg)
+        ? [arg]
+        : arg.getDescendantsOfKind(SyntaxKind.Identifier);
+      identifiers
+        .filter((identifier) => this.isValueReference(identifier))
+        .forEach((identifier) => {
+          const key = this.getVariableKey(identifier);
+          const source = key ? state.valueSources.get(key) : undefined;
+          source?.nodeIds.forEach((producerNodeId) => {
+            const exists = state.edges.some(
+              (edge) =>
+                edge.type === "DataFlow" &&
+                edge.from === producerNodeId &&
+                edge.to === consumerNodeId &&
+                edge.label === source.name
+            );
+            if (!exists && producerNodeId !== consumerNodeId) {
+              state.edges.push({
+                id: uuidv4(),
+                from: producerNodeId,
+                to: consumerNodeId,
+                label: source.name,
+                type: "DataFlow",
+              });
+            }
+          });
+        });
+    });
+  }
+
+  // Excludes identifiers that name a property rather than read a variable, e.g. `id` in `user.id`
+  private isValueReference(identifier: Identifier): boolean {
+    const parent = identifier.getParent();
+    if (Node.isPropertyAccessExpression(parent) && parent.getNameNode() === identifier) {
+      return false;
+    }
+    if (Node.isPropertyAssignment(parent) && parent.getNameNode() === identifier) {
+      return false;
+    }
+    return true;
+  }
+
+  private getVariableKey(identifier: Identifier): string | undefined {
+    const parent = identifier.getParent();
+    const symbol = Node.isShorthandPropertyAssignment(parent)
+      ? parent.getValueSymbol()
+      : identifier.getSymbol();
+    const declaration = symbol?.getDeclarations()[0];
+    return declaration ? this.getDeclarationKey(declaration) : undefined;
+  }
+
+  // --- Events and messages ---
+  // Emit/fire/postMessage sites become Event nodes, linked to the listeners registered for the
+  // same event name, or to the handler branch for the same message `command`, anywhere in the
+  // workspace. That's what lets a capture cross the extension/webview boundary.
+
+  private getEmittedEvent(node: CallExpression): EmittedEvent | undefined {
+    const callee = node.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) {
+      return undefined;
+    }
+    const method = callee.getName();
+    const receiver = callee.getExpression();
+    const [firstArg] = node.getArguments().map((arg) => this.unwrapExpression(arg));
+
+    if (method === "emit" && firstArg && this.getStringValue(firstArg) !== undefined) {
+      const name = this.getStringValue(firstArg)!;
+      return { kind: "event", name, label: `emit "${name}"` };
+    }
+    if (method === "fire") {
+      const name = this.getEmitterName(receiver);
+      return { kind: "event", name, label: `fire ${name}` };
+    }
+    if (method === "dispatchEvent" && firstArg && Node.isNewExpression(firstArg)) {
+      const [eventNameArg] = firstArg.getArguments();
+      const name = eventNameArg ? this.getStringValue(eventNameArg) : undefined;
+      if (name !== undefined) {
+        return { kind: "event", name, label: `dispatchEvent "${name}"` };
+      }
+    }
+    if (/postMessage/i.test(method)) {
+      let command: string | undefined;
+      if (firstArg && Node.isObjectLiteralExpression(firstArg)) {
+        const commandProperty = firstArg.getProperty("command");
+        if (commandProperty && Node.isPropertyAssignment(commandProperty)) {
+          const initializer = commandProperty.getInitializer();
+          command = initializer ? this.getStringValue(initializer) : undefined;
+        }
+      }
+      // Messages posted towards a webview arrive as DOM "message" events, others at the extension
+      const channel = /webview|window/i.test(`${receiver.getText()}.${method}`)
+        ? "dom"
+        : "extension";
+      return {
+        kind: "message",
+        name: command,
+        channel,
+        label: command ? `postMessage "${command}"` : "postMessage",
+      };
+    }
+    return undefined;
+  }
+
+  private visitEventEmit(
+    node: CallExpression,
+    emitted: EmittedEvent,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const eventNodeId = this.addFlowNode(
+      {
+        label: emitted.label,
+        type: "Event",
+        codeReference: this.createCodeReference(node.getExpression()),
+        description: `${emitted.kind === "message" ? "Message" : "Event"} ${
+          emitted.name || "(dynamic)"
+        }`,
+        properties: { eventKind: emitted.kind, eventName: emitted.name },
+      },
+      incoming,
+      state
+    );
+    state.callNodes.set(node, eventNodeId);
+    this.addDataFlowEdges(node, eventNodeId, state);
+    let exits: PendingEdge[] = [{ from: eventNodeId, type: "DirectCall" }];
+    if (state.depth >= state.options.maxDepth) {
+      return exits;
+    }
+
+    this.getListenerRegistrations(state).forEach((registration) => {
+      if (
+        registration.kind !== emitted.kind ||
+        registration.channel !== emitted.channel ||
+        !this.isExpandablePath(registration.site.getSourceFile().getFilePath(), state)
+      ) {
+        return;
+      }
+      if (emitted.kind === "event") {
+        if (registration.name !== emitted.name) {
+          return;
+        }
+        const handler = this.resolveHandler(registration.handlerExpression);
+        if (!handler) {
+          return;
+        }
+        // Emitters call their listeners synchronously, before the emit returns
+        const listenerNodeId = this.addFlowNode(
+          {
+            label: `on ${emitted.name}`,
+            type: "Event",
+            codeReference: this.createCodeReference(registration.site.getExpression()),
+            description: `Listener for ${emitted.name}`,
+          },
+          exits,
+          state
+        );
+        exits = this.expandBody(
+          handler,
+          listenerNodeId,
+          [{ from: listenerNodeId, type: "DirectCall" }],
+          state
+        );
+        return;
+      }
+
+      this.getMessageHandlers(registration)
+        .filter((handler) => handler.command === undefined || handler.command === emitted.name)
+        .forEach((handler) => {
+          const listenerNodeId = this.addFlowNode(
+            {
+              label: handler.command ? `on message "${handler.command}"` : "on message",
+              type: "Event",
+              codeReference: this.createCodeReference(
+                handler.command ? handler.body : registration.site.getExpression()
+              ),
+              description: `Message handler${handler.command ? ` for ${handler.command}` : ""}`,
+            },
+            [{ from: eventNodeId, type: "AsyncCallback", label: "message" }],
+            state
+          );
+          // Messages are delivered later, so the handler is a deferred sub-flow
+          this.expandBody(
+            handler.body,
+            listenerNodeId,
+            [{ from: listenerNodeId, type: "DirectCall" }],
+            state,
+            true
+          );
+        });
+    });
+    return exits;
+  }
+
+  private getListenerRegistrations(state: ParseState): ListenerRegistration[] {
+    if (state.listeners) {
+      return state.listeners;
+    }
+    const listeners: ListenerRegistration[] = [];
+    const candidates = this.codeIndex?.isReady()
+      ? this.codeIndex.getFilesCallingMethod(
+          // The methods getListenerRegistration recognises
+          (method) =>
+            LISTENER_METHODS.includes(method) || method === "event" || /^on[A-Z]/.test(method)
+        )
+      : undefined;
+    this.loadSourceFiles(candidates, state).forEach((sourceFile) => {
+      sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach((call) => {
+        const registration = this.getListenerRegistration(call);
+        if (registration) {
+          listeners.push(registration);
+        }
+      });
+    });
+    Logger.log(`AST Service: Found ${listeners.length} listener registrations in the workspace.`);
+    state.listeners = listeners;
+    return listeners;
+  }
+
+  private getListenerRegistration(call: CallExpression): ListenerRegistration | undefined {
+    const callee = call.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) {
+      return undefined;
+    }
+    const method = callee.getName();
+    const [firstArg, secondArg] = call.getArguments();
+    if (!firstArg) {
+      return undefined;
+    }
+    if (method === "onDidReceiveMessage") {
+      return { kind: "message", channel: "extension", handlerExpression: firstArg, site: call };
+    }
+    const eventName = this.getStringValue(firstArg);
+    if (LISTENER_METHODS.includes(method) && eventName !== undefined && secondArg) {
+      if (method === "addEventListener" && eventName === "message") {
+        return { kind: "message", channel: "dom", handlerExpression: secondArg, site: call };
+      }
+      return { kind: "event", name: eventName, handlerExpression: secondArg, site: call };
+    }
+    if (method === "event") {
+      // vscode.EventEmitter: `emitter.event(listener)`
+      const name = this.getEmitterName(callee.getExpression());
+      return { kind: "event", name, handlerExpression: firstArg, site: call };
+    }
+    if (/^on[A-Z]/.test(method)) {
+      // Events exposed as `readonly onDidChange = this._onDidChange.event`
+      return { kind: "event", name: method, handlerExpression: firstArg, site: call };
+    }
+    return undefined;
+  }
+
+  // Splits a message listener into the branches that handle each `command`
+  private getMessageHandlers(
+    registration: ListenerRegistration
+  ): { command?: string; body: Node }[] {
+    const handler = this.resolveHandler(registration.handlerExpression);
+    if (!handler) {
+      return [];
+    }
+    const handlers: { command?: string; body: Node }[] = [];
+    handler.forEachDescendant((node) => {
+      if (Node.isSwitchStatement(node) && this.isCommandAccess(node.getExpression())) {
+        const clauses = node.getClauses();
+        clauses.forEach((clause, index) => {
+          const command = Node.isCaseClause(clause)
+            ? this.getStringValue(clause.getExpression())
+            : undefined;
+          // Empty clauses fall through to the next clause that has statements
+          const body = clauses.slice(index).find((c) => c.getStatements().length > 0);
+          if (command !== undefined && body) {
+            handlers.push({ command, body });
+          }
+        });
+      } else if (Node.isIfStatement(node)) {
+        const condition = node.getExpression();
+        if (
+          Node.isBinaryExpression(condition) &&
+          ["===", "=="].includes(condition.getOperatorToken().getText())
+        ) {
+          const [left, right] = [condition.getLeft(), condition.getRight()];
+          const command = this.isCommandAccess(left)
+            ? this.getStringValue(right)
+            : this.isCommandAccess(right)
+            ? this.getStringValue(left)
+            : undefined;
+          if (command !== undefined) {
+            handlers.push({ command, body: node.getThenStatement() });
+          }
+        }
+      }
+    });
+    // A listener that doesn't dispatch on `command` handles every message
+    return handlers.length > 0 ? handlers : [{ body: handler }];
+  }
+
+  private resolveHandler(handlerExpression: Node): FunctionLike | undefined {
+    const handler = this.unwrapExpression(handlerExpression);
+    if (Node.isArrowFunction(handler) || Node.isFunctionExpression(handler)) {
+      return handler;
+    }
+    if (Node.isIdentifier(handler) || Node.isPropertyAccessExpression(handler)) {
+      return this.resolveFunctionDeclaration(handler);
+    }
+    return undefined;
+  }
+
+  // Loads the given candidate files, or every workspace file when there are no candidates
+  // (the code index isn't built)
+  private loadSourceFiles(candidates: string[] | undefined, state: ParseState): SourceFile[] {
+    if (!candidates) {
+      return this.loadWorkspaceSourceFiles(state);
+    }
+    return candidates
+      .filter((filePath) => this.isExpandablePath(filePath, state))
+      .map((filePath) => {
+        let sourceFile = state.project.getSourceFile(filePath);
+        if (!sourceFile) {
+          sourceFile = state.project.addSourceFileAtPathIfExists(filePath);
+          if (sourceFile) {
+            this.markParsed(sourceFile);
+          }
+        }
+        if (sourceFile) {
+          this.refreshSourceFile(sourceFile);
+        }
+        return sourceFile;
+      })
+      .filter((sourceFile): sourceFile is SourceFile => sourceFile !== undefined);
+  }
+
+  private loadWorkspaceSourceFiles(state: ParseState): SourceFile[] {
+    if (state.workspaceFiles) {
+      return state.workspaceFiles;
+    }
+    const loadedFiles = new Set(state.project.getSourceFiles());
+    (vscode.workspace.workspaceFolders || []).forEach((folder) => {
+      if (folder.uri.scheme !== "file") {
+        return; // Virtual folders can't be globbed, only their open documents are known
+      }
+      const root = folder.uri.fsPath.replace(/\\/g, "/");
+      state.project.addSourceFilesAtPaths([
+        `${root}/**/*.{ts,tsx,js,jsx}`,
+        `!${root}/**/node_modules/**`, // Never worth scanning, even if not excluded
+        ...state.options.excludePaths.map((pattern) => `!${root}/${pattern}`),
+      ]);
+    });
+    state.workspaceFiles = state.project
+      .getSourceFiles()
+      .filter((sourceFile) => this.isExpandablePath(sourceFile.getFilePath(), state))
+      .map((sourceFile) => {
+        if (!loadedFiles.has(sourceFile)) {
+          this.markParsed(sourceFile); // Just read
+        }
+        this.refreshSourceFile(sourceFile); // It may have changed since the last capture
+        return sourceFile;
+      });
+    return state.workspaceFiles;
+  }
+
+  // --- Entry point discovery ---
+  // Routes and commands are found by scanning the workspace for the calls registering them,
+  // then captured from an EntryPoint named after them through their handlers.
+
+  // Loads the workspace files that call one of the methods, or match `isEntryFile`
+  private async getEntryPointSourceFiles(
+    callsMethod: (method: string) => boolean,
+    isEntryFile: (relativePath: string) => boolean = () => false
+  ): Promise<SourceFile[]> {
+    // With the index, only the files calling one of the methods need to be parsed
+    const candidates = this.codeIndex?.isReady()
+      ? new Set(this.codeIndex.getFilesCallingMethod(callsMethod))
+      : undefined;
+    const sourceFiles: SourceFile[] = [];
+    for (const { filePath, relativePath } of await this.findSourceFilePaths(SOURCE_FILES_GLOB)) {
+      if (candidates && !candidates.has(filePath) && !isEntryFile(relativePath)) {
+        continue;
+      }
+      const sourceFile = await this.getSourceFile(filePath);
+      if (sourceFile) {
+        sourceFiles.push(sourceFile);
+      }
+    }
+    return sourceFiles;
+  }
+
+  // Workspace source files matching `include`, except those excluded from captures
+  private async findSourceFilePaths(
+    include: vscode.GlobPattern
+  ): Promise<{ filePath: string; relativePath: string }[]> {
+    const { excludePaths } = getCaptureOptions();
+    const uris = await vscode.workspace.findFiles(include, "**/node_modules/**");
+    return uris
+      .map((uri) => {
+        const filePath = toDocumentPath(uri);
+        return { filePath, relativePath: this.getWorkspaceRelativePath(filePath) };
+      })
+      .filter(
+        (file): file is { filePath: string; relativePath: string } =>
+          file.relativePath !== undefined && !matchesGlob(file.relativePath, excludePaths)
+      );
+  }
+
+  // Functions and arrow functions exported by a file, and the public methods of its classes
+  private getExportedFunctions(sourceFile: SourceFile): ExportedFunction[] {
+    const functions: ExportedFunction[] = [];
+    const add = (name: string | undefined, declaration: Node, className?: string) => {
+      if (name) {
+        functions.push({
+          name,
+          qualifiedName: className ? `${className}.${name}` : name,
+          filePath: this.createCodeReference(declaration).filePath,
+          line: declaration.getStartLineNumber(),
+        });
+      }
+    };
+    sourceFile.getExportedDeclarations().forEach((declarations) =>
+      declarations
+        .filter((declaration) => declaration.getSourceFile() === sourceFile) // Not re-exports
+        .forEach((declaration) => {
+          if (Node.isFunctionDeclaration(declaration) && declaration.hasBody()) {
+            add(declaration.getName(), declaration);
+          } else if (
+            Node.isVariableDeclaration(declaration) &&
+            Node.isArrowFunction(declaration.getInitializer())
+          ) {
+            add(declaration.getName(), declaration);
+          } else if (Node.isClassDeclaration(declaration)) {
+            declaration
+              .getMethods()
+              .filter((method) => method.hasBody() && method.getScope() === Scope.Public)
+              .forEach((method) => add(method.getName(), method, declaration.getName()));
+          }
+        })
+    );
+    return functions;
+  }
+
+  // Captures the handlers one after the other, from the entry node
+  private parseHandlers(
+    handlers: Node[],
+    kind: string,
+    project: Project,
+    entryNode: FlowNode
+  ): { nodes: FlowNode[]; edges: FlowEdge[] } {
+    const state: ParseState = {
+      project,
+      nodes: [entryNode],
+      edges: [],
+      options: getCaptureOptions(),
+      depth: 0,
+      activeFunctions: new Map(),
+      reachedTargets: [],
+      callNodes: new Map(),
+      callSites: new Map(),
+      implementations: new Map(),
+      valueSources: new Map(),
+      returnCollectors: [],
+      jumpTargets: [],
+      errorHandlers: [],
+    };
+    handlers.reduce((incoming, handler) => this.visitHandler(handler, incoming, state, kind), [
+      { from: entryNode.id, type: "DirectCall" },
+    ] as PendingEdge[]);
+    const flow = this.normalizeFlow(state.nodes, state.edges);
+    Logger.log(
+      `AST Service: Parsing complete. Nodes: ${flow.nodes.length}, Edges: ${flow.edges.length}`
+    );
+    return flow;
+  }
+
+  private getCommandRegistrations(sourceFile: SourceFile): CommandRegistration[] {
+    const registrations: CommandRegistration[] = [];
+    sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach((call) => {
+      const callee = call.getExpression();
+      const [idArg, handler] = call.getArguments();
+      if (
+        !Node.isPropertyAccessExpression(callee) ||
+        !COMMAND_REGISTRATION_METHODS.includes(callee.getName()) ||
+        !idArg ||
+        !handler
+      ) {
+        return;
+      }
+      const id = this.getStringValue(idArg) ?? this.getStringLiteralType(idArg);
+      if (id !== undefined) {
+        registrations.push({
+          command: { id, codeReference: this.createCodeReference(call) },
+          handler,
+        });
+      }
+    });
+    return registrations;
+  }
+
+  // `"flowMaster.saveFlow"` for a constant such as `const SAVE_COMMAND = "flowMaster.saveFlow"`
+  private getStringLiteralType(node: Node): string | undefined {
+    const type = node.getType();
+    return type.isStringLiteral() ? String(type.getLiteralValue()) : undefined;
+  }
+
+  private getRouteRegistrations(sourceFile: SourceFile): RouteRegistration[] {
+    const registrations: RouteRegistration[] = [];
+    const addRoute = (method: string, routePath: string, site: Node, handlers: Node[]) => {
+      if (handlers.length > 0) {
+        registrations.push({
+          route: {
+            method: method.toUpperCase(),
+            path: routePath,
+            codeReference: this.createCodeReference(site),
+          },
+          handlers,
+        });
+      }
+    };
+
+    const relativePath = this.getWorkspaceRelativePath(sourceFile.getFilePath());
+    const nextRoutePath = relativePath && this.getNextRoutePath(relativePath);
+    if (nextRoutePath && NEXT_APP_ROUTE.test(relativePath)) {
+      // App Router: `export async function GET(request) {...}`
+      sourceFile.getExportedDeclarations().forEach((declarations, name) => {
+        const handler = declarations.find(
+          (declaration) => !!this.getFunctionLikeWithBody(declaration)
+        );
+        if (HTTP_METHODS.includes(name.toLowerCase()) && name === name.toUpperCase() && handler) {
+          addRoute(name, nextRoutePath, handler, [this.getFunctionLikeWithBody(handler) as Node]);
+        }
+      });
+    } else if (nextRoutePath) {
+      // Pages Router: `export default function handler(req, res) {...}` serves every method
+      const declaration = sourceFile.getDefaultExportSymbol()?.getDeclarations()[0];
+      const handler =
+        declaration && Node.isExportAssignment(declaration)
+          ? declaration.getExpression()
+          : declaration && this.getFunctionLikeWithBody(declaration);
+      if (declaration && handler) {
+        addRoute("ALL", nextRoutePath, declaration, [handler]);
+      }
+    }
+
+    sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach((call) => {
+      const callee = call.getExpression();
+      if (!Node.isPropertyAccessExpression(callee)) {
+        return;
+      }
+      const method = callee.getName();
+      const args = call.getArguments();
+      if (HTTP_METHODS.includes(method)) {
+        // `app.route("/users").get(list).post(create)` registers its handlers on the route's path
+        const routeCall = this.findRouteCall(callee.getExpression());
+        const pathArgs = routeCall ? routeCall.getArguments() : args;
+        // koa-router also accepts a route name first: `router.get("user", "/users/:id", ...)`
+        const pathIndex = pathArgs
+          .slice(0, 2)
+          .findIndex((arg) => this.getStringValue(arg)?.startsWith("/"));
+        if (pathIndex === -1) {
+          return; // `map.get(key)` and friends
+        }
+        const handlers = (routeCall ? args : args.slice(pathIndex + 1)).filter(
+          (arg) => !Node.isObjectLiteralExpression(arg) && this.getStringValue(arg) === undefined
+        );
+        addRoute(method, this.getStringValue(pathArgs[pathIndex]) as string, call, handlers);
+      } else if (method === "route" && args[0] && Node.isObjectLiteralExpression(args[0])) {
+        // Fastify: `fastify.route({ method: ["GET", "HEAD"], url: "/users", handler })`
+        const options = args[0];
+        const getInitializer = (name: string) => {
+          const property = options.getProperty(name);
+          if (Node.isPropertyAssignment(property)) {
+            return property.getInitializer();
+          }
+          if (Node.isShorthandPropertyAssignment(property)) {
+            return property.getNameNode();
+          }
+          return Node.isMethodDeclaration(property) ? property : undefined;
+        };
+        const url = getInitializer("url") || getInitializer("path");
+        const routePath = url && this.getStringValue(url);
+        const methodsNode = getInitializer("method");
+        const methods =
+          methodsNode && Node.isArrayLiteralExpression(methodsNode)
+            ? methodsNode.getElements().map((element) => this.getStringValue(element))
+            : [methodsNode && this.getStringValue(methodsNode)];
+        const handler = getInitializer("handler");
+        if (routePath && handler) {
+          methods.forEach((routeMethod) => {
+            if (routeMethod) {
+              addRoute(routeMethod, routePath, call, [handler]);
+            }
+          });
+        }
+      }
+    });
+    return registrations;
+  }
+
+  // The `route("/path")` call an Express route chain starts from, if `receiver` is part of one
+  private findRouteCall(receiver: Node): CallExpression | undefined {
+    if (!Node.isCallExpression(receiver)) {
+      return undefined;
+    }
+    const callee = receiver.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) {
+      return undefined;
+    }
+    if (callee.getName() === "route") {
+      return receiver;
+    }
+    return HTTP_METHODS.includes(callee.getName())
+      ? this.findRouteCall(callee.getExpression())
+      : undefined;
+  }
+
+  // `/api/users/[id]` for `pages/api/users/[id].ts` or `app/api/users/[id]/route.ts`
+  private getNextRoutePath(relativePath: string): string | undefined {
+    const pagesMatch = NEXT_PAGES_API_ROUTE.exec(relativePath);
+    if (pagesMatch) {
+      return pagesMatch[1];
+    }
+    const appMatch = NEXT_APP_ROUTE.exec(relativePath);
+    if (appMatch) {
+      // Route groups like `(admin)` organise files without being part of the URL
+      return appMatch[1].replace(/\/\([^/]*\)/g, "") || "/";
+    }
+    return undefined;
+  }
+
+  private getWorkspaceRelativePath(filePath: string): string | undefined {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    return workspaceFolder
+      ? path.relative(workspaceFolder.uri.fsPath, filePath).replace(/\\/g, "/")
+      : undefined;
+  }
+
+  private isCommandAccess(node: Node): boolean {
+    return (
+      (Node.isIdentifier(node) && node.getText() === "command") ||
+      (Node.isPropertyAccessExpression(node) && node.getName() === "command")
+    );
+  }
+
+  // `this._onDidChangeTreeData` and `onDidChangeTreeData` name the same event
+  private getEmitterName(node: Node): string {
+    const name = Node.isPropertyAccessExpression(node) ? node.getName() : node.getText();
+    return name.replace(/^_+/, "");
+  }
+
+  private getStringValue(node: Node): string | undefined {
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+      return node.getLiteralValue();
+    }
+    return undefined;
+  }
+
+  // Strips `as`/`satisfies`/parentheses wrappers, e.g. `{ command: "x" } as Message`
+  private unwrapExpression(node: Node): Node {
+    if (
+      Node.isAsExpression(node) ||
+      Node.isParenthesizedExpression(node) ||
+      Node.isTypeAssertion(node) ||
+      Node.isSatisfiesExpression(node)
+    ) {
+      return this.unwrapExpression(node.getExpression());
+    }
+    return node;
+  }
+
+  // --- Promise handling ---
+
+  private isPromiseChainCall(node: CallExpression): boolean {
+    const callee = node.getExpression();
+    return (
+      Node.isPropertyAccessExpression(callee) && PROMISE_CHAIN_METHODS.includes(callee.getName())
+    );
+  }
+
+  // Visits `promise.then(a).catch(b).finally(c)`. The code after the chain continues from the
+  // promise itself (syncExits), while each handler is a deferred sub-flow that runs after the
+  // previous step settles (asyncExits).
+  private visitPromiseChain(
+    node: CallExpression,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): { syncExits: PendingEdge[]; asyncExits: PendingEdge[] } {
+    const callee = node.getExpression() as PropertyAccessExpression;
+    const receiver = this.skipParentheses(callee.getExpression());
+    let syncExits: PendingEdge[];
+    let asyncExits: PendingEdge[];
+    if (Node.isCallExpression(receiver) && this.isPromiseChainCall(receiver)) {
+      ({ syncExits, asyncExits } = this.visitPromiseChain(receiver, incoming, state));
+    } else {
+      syncExits = this.visit(receiver, incoming, state);
+      asyncExits = syncExits;
+    }
+
+    const method = callee.getName();
+    const handlers = node.getArguments();
+    if (handlers.length === 0) {
+      return { syncExits, asyncExits };
+    }
+    const handlerExits: PendingEdge[] = [];
+    handlers.forEach((handler, index) => {
+      const label = method === "then" && index === 1 ? "rejected" : method;
+      const handlerIncoming = asyncExits.map(
+        (exit): PendingEdge => ({ from: exit.from, type: "AsyncCallback", label })
+      );
+      handlerExits.push(...this.visitHandler(handler, handlerIncoming, state));
+    });
+    // A fulfilled promise skips `catch` handlers and continues down the chain
+    return {
+      syncExits,
+      asyncExits: method === "catch" ? [...asyncExits, ...handlerExits] : handlerExits,
+    };
+  }
+
+  private visitHandler(
+    handler: Node,
+    incoming: PendingEdge[],
+    state: ParseState,
+    kind: string = "Promise"
+  ): PendingEdge[] {
+    if (Node.isArrowFunction(handler) || Node.isFunctionExpression(handler)) {
+      return this.visitFunction(handler, incoming, state, true);
+    }
+    if (Node.isIdentifier(handler) || Node.isPropertyAccessExpression(handler)) {
+      // A handler passed by reference, e.g. `.then(this.handleResult)`
+      const handlerNodeId = this.addFlowNode(
+        {
+          label: handler.getText(),
+          type: "Function",
+          codeReference: this.createCodeReference(handler),
+          description: `${kind} handler ${handler.getText()}`,
+        },
+        incoming,
+        state
+      );
+      return this.expandCall(
+        handler,
+        this.resolveFunctionDeclaration(handler),
+        handlerNodeId,
+        state
+      );
+    }
+    return this.visit(handler, incoming, state);
+  }
+
+  private getPromiseCombinatorElements(node: CallExpression): Node[] | undefined {
+    const callee = node.getExpression();
+    const [firstArg] = node.getArguments();
+    if (
+      Node.isPropertyAccessExpression(callee) &&
+      callee.getExpression().getText() === "Promise" &&
+      PROMISE_COMBINATORS.includes(callee.getName()) &&
+      firstArg &&
+      Node.isArrayLiteralExpression(firstArg)
+    ) {
+      return firstArg.getElements();
+    }
+    return undefined;
+  }
+
+  private skipParentheses(node: Node): Node {
+    return Node.isParenthesizedExpression(node) ? this.skipParentheses(node.getExpression()) : node;
+  }
+
+  private getParentSkippingParentheses(node: Node): Node | undefined {
+    const parent = node.getParent();
+    return parent && Node.isParenthesizedExpression(parent)
+      ? this.getParentSkippingParentheses(parent)
+      : parent;
+  }
+
+  // --- React ---
+  // A JSX element renders its component: the flow follows the component's definition into its
+  // render output, and event-handler props become deferred sub-flows from the element.
+
+  private visitJsxElement(
+    node: JsxElement | JsxSelfClosingElement,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const opening = Node.isJsxElement(node) ? node.getOpeningElement() : node;
+    const tagName = opening.getTagNameNode();
+    const intrinsic = Node.isIdentifier(tagName) && /^[a-z]/.test(tagName.getText()); // e.g. <div>
+    let current = incoming;
+    const handlers: { prop: string; expression: Node }[] = [];
+    opening.getAttributes().forEach((attribute) => {
+      if (Node.isJsxAttribute(attribute)) {
+        const prop = attribute.getNameNode().getText();
+        const initializer = attribute.getInitializer();
+        const expression = Node.isJsxExpression(initializer)
+          ? initializer.getExpression()
+          : undefined;
+        if (expression && EVENT_HANDLER_PROP.test(prop)) {
+          handlers.push({ prop, expression });
+          return;
+        }
+      }
+      current = this.visit(attribute, current, state); // Props are evaluated before rendering
+    });
+
+    // Plain elements only get a node when they have handlers to hang off it
+    if (!intrinsic || handlers.length > 0) {
+      const label = `<${tagName.getText()}>`;
+      const elementNodeId = this.addFlowNode(
+        {
+          label,
+          type: "Component",
+          codeReference: this.createCodeReference(tagName),
+          description: intrinsic ? `Element ${label}` : `Renders ${tagName.getText()}`,
+        },
+        current,
+        state
+      );
+      handlers.forEach(({ prop, expression }) => {
+        this.visitHandler(
+          expression,
+          [{ from: elementNodeId, type: "AsyncCallback", label: prop }],
+          state,
+          prop
+        );
+      });
+      current = intrinsic
+        ? [{ from: elementNodeId, type: "DirectCall" }]
+        : this.expandCall(tagName, this.resolveComponent(tagName), elementNodeId, state);
+    }
+
+    if (Node.isJsxElement(node)) {
+      node.getJsxChildren().forEach((child) => {
+        current = this.visit(child, current, state);
+      });
+    }
+    return current;
+  }
+
+  // Function components resolve like any function, class components to their `render` method
+  private resolveComponent(tagName: Node): FunctionLike | undefined {
+    const nameNode = Node.isPropertyAccessExpression(tagName) ? tagName.getNameNode() : tagName;
+    if (Node.isIdentifier(nameNode)) {
+      try {
+        for (const definition of nameNode.getDefinitionNodes()) {
+          const render = Node.isClassDeclaration(definition)
+            ? definition.getInstanceMethod("render")
+            : undefined;
+          if (render && render.getBody()) {
+            return render;
+          }
+        }
+      } catch (error) {
+        Logger.error(`AST Service: Could not resolve component ${tagName.getText()}`, error);
+      }
+    }
+    return this.resolveFunctionDeclaration(tagName);
+  }
+
+  private getCalleeName(callee: Node): string | undefined {
+    if (Node.isPropertyAccessExpression(callee)) {
+      return callee.getName();
+    }
+    return Node.isIdentifier(callee) ? callee.getText() : undefined;
+  }
+
+  // Follows a call into its definition and parses the callee's body in place, so the caller
+  // continues from the callee's exits. Recursive calls become a back-edge to the node that
+  // first entered the function.
+  private expandCall(
+    callee: Node,
+    declaration: FunctionLike | undefined,
+    callNodeId: string,
+    state: ParseState
+  ): PendingEdge[] {
+    const afterCall: PendingEdge[] = [{ from: callNodeId, type: "DirectCall" }];
+    const atDepthLimit = state.depth >= state.options.maxDepth;
+    if (atDepthLimit && !state.targetFunction) {
+      return afterCall;
+    }
+    if (!declaration) {
+      return afterCall;
+    }
+
+    const key = this.getDeclarationKey(declaration);
+    if (key === state.targetFunction) {
+      state.reachedTargets.push(callNodeId); // The path ends here, don't expand the target
+      return afterCall;
+    }
+    if (state.reachingFunctions && this.cannotReachTarget(declaration, state.reachingFunctions)) {
+      return afterCall;
+    }
+    if (atDepthLimit || !this.isExpandablePath(declaration.getSourceFile().getFilePath(), state)) {
+      return afterCall;
+    }
+    Logger.log(
+      `AST Service: Expanding ${callee.getText()} into ${declaration
+        .getSourceFile()
+        .getBaseName()} (depth ${state.depth + 1})`
+    );
+    return this.expandBody(declaration, callNodeId, afterCall, state);
+  }
+
+  // Parses a function (or a message handler's case) one level deeper, as part of the flow.
+  // If it is already being expanded, a back-edge to the node that entered it is added instead.
+  private expandBody(
+    body: Node,
+    enteredByNodeId: string,
+    incoming: PendingEdge[],
+    state: ParseState,
+    deferred: boolean = false
+  ): PendingEdge[] {
+    const key = this.getDeclarationKey(body);
+    const activeNodeId = state.activeFunctions.get(key);
+    if (activeNodeId) {
+      state.edges.push({
+        id: uuidv4(),
+        from: enteredByNodeId,
+        to: activeNodeId,
+        label: "recursion",
+        type: "DirectCall",
+        properties: { backEdge: true },
+      });
+      return incoming;
+    }
+
+    state.activeFunctions.set(key, enteredByNodeId);
+    const { range, depth, expandedBy } = state;
+    // The range only applies to the file being captured, not to the expanded body
+    Object.assign(state, { range: undefined, depth: depth + 1, expandedBy: enteredByNodeId });
+    const exits = this.visitFunction(body, incoming, state, deferred);
+    Object.assign(state, { range, depth, expandedBy });
+    state.activeFunctions.delete(key);
+    return exits;
+  }
+
+  // Resolves a call with the type checker, so `this.storage.getAllFlows()` is named after the
+  // class that declares it and an overloaded call resolves to the signature that matched.
+  private resolveCallTarget(call: CallExpression, state: ParseState): CallTarget | undefined {
+    const declaration = this.getSignatureDeclaration(call);
+    if (!declaration) {
+      // No signature (e.g. the callee is `any`), fall back to go-to-definition, then to the
+      // function the code index knows by that name
+      const definition =
+        this.resolveFunctionDeclaration(call.getExpression()) ||
+        this.findIndexedDeclaration(call.getExpression(), state);
+      return (
+        definition && {
+          name: this.getQualifiedName(definition),
+          declaration: definition,
+          implementation: definition,
+          alternatives: [],
+        }
+      );
+    }
+
+    let implementation = this.getFunctionLikeWithBody(declaration);
+    if (
+      !implementation &&
+      (Node.isFunctionDeclaration(declaration) || Node.isMethodDeclaration(declaration))
+    ) {
+      implementation = declaration.getImplementation(); // The call matched an overload signature
+    }
+    const alternatives = this.findImplementations(declaration, state).filter(
+      (alternative) => alternative !== implementation
+    );
+    if (!implementation && alternatives.length === 1) {
+      implementation = alternatives.pop(); // The only known implementation of an interface member
+    }
+    return { name: this.getQualifiedName(declaration), declaration, implementation, alternatives };
+  }
+
+  private getSignatureDeclaration(call: CallExpression): Node | undefined {
+    try {
+      return call.getProject().getTypeChecker().getResolvedSignature(call)?.getDeclaration();
+    } catch (error) {
+      return undefined; // Signatures of `any` or unresolved calls have no declaration
+    }
+  }
+
+  // Interface members, abstract methods and methods that subclasses override may run another
+  // body than the one the type checker picked. Looks for them in the files the code index knows
+  // to extend the type; without the index, finding them would load every workspace file.
+  private findImplementations(declaration: Node, state: ParseState): FunctionLike[] {
+    if (
+      !Node.isMethodSignature(declaration) &&
+      !Node.isPropertySignature(declaration) &&
+      !Node.isMethodDeclaration(declaration) &&
+      !Node.isPropertyDeclaration(declaration)
+    ) {
+      return [];
+    }
+    const container = declaration.getParent();
+    const nameNode = declaration.getNameNode();
+    if (
+      !(Node.isInterfaceDeclaration(container) || Node.isClassDeclaration(container)) ||
+      !Node.isIdentifier(nameNode) ||
+      !this.isExpandablePath(declaration.getSourceFile().getFilePath(), state)
+    ) {
+      return [];
+    }
+    const key = this.getDeclarationKey(declaration);
+    const cached = state.implementations.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const containerName = container.getName();
+    const extendingFiles =
+      this.codeIndex?.isReady() && containerName
+        ? this.codeIndex.getFilesExtending(containerName)
+        : undefined;
+    // A concrete method of a class nothing extends is the only body there is. Implementations
+    // that aren't subclasses, e.g. object literals typed with an interface, are only found in
+    // the files loaded already.
+    const isAbstract =
+      Node.isInterfaceDeclaration(container) ||
+      ((Node.isMethodDeclaration(declaration) || Node.isPropertyDeclaration(declaration)) &&
+        declaration.isAbstract());
+    if (!extendingFiles || (extendingFiles.length === 0 && !isAbstract)) {
+      state.implementations.set(key, []);
+      return [];
+    }
+    this.loadSourceFiles(extendingFiles, state);
+    const implementations: FunctionLike[] = [];
+    try {
+      nameNode.getImplementations().forEach((location) => {
+        const node = location.getNode();
+        const functionLike =
+          this.getFunctionLikeWithBody(node) ||
+          this.getFunctionLikeWithBody(node.getParentOrThrow());
+        if (
+          functionLike &&
+          this.getDeclarationKey(functionLike) !== key &&
+          this.isExpandablePath(functionLike.getSourceFile().getFilePath(), state)
+        ) {
+          implementations.push(functionLike);
+        }
+      });
+    } catch (error) {
+      Logger.error(
+        `AST Service: Could not find implementations of ${declaration.getText()}`,
+        error
+      );
+    }
+    state.implementations.set(key, implementations);
+    return implementations;
+  }
+
+  // `Class.method` for class and interface members, `namespace.function` for namespace members
+  // and the plain name otherwise. Undefined when the declaration has no useful name, e.g. a
+  // method of an object literal, so the call's own text is used instead.
+  private getQualifiedName(declaration: Node): string | undefined {
+    let named: Node = declaration;
+    const parent = declaration.getParent();
+    if (
+      (Node.isArrowFunction(declaration) || Node.isFunctionExpression(declaration)) &&
+      (Node.isVariableDeclaration(parent) ||
+        Node.isPropertyDeclaration(parent) ||
+        Node.isPropertyAssignment(parent))
+    ) {
+      named = parent;
+    }
+    const name = Node.hasName(named) ? named.getName() : undefined;
+    if (!name) {
+      return undefined;
+    }
+
+    const container = named.getParent();
+    if (
+      Node.isClassDeclaration(container) ||
+      Node.isClassExpression(container) ||
+      Node.isInterfaceDeclaration(container)
+    ) {
+      const containerName = container.getName();
+      return containerName ? `${containerName}.${name}` : name;
+    }
+    if (Node.isModuleBlock(container)) {
+      return `${container.getParentOrThrow().getName()}.${name}`;
+    }
+    if (
+      Node.isMethodDeclaration(named) ||
+      Node.isMethodSignature(named) ||
+      Node.isPropertyAssignment(named) ||
+      Node.isPropertySignature(named)
+    ) {
+      return undefined; // A member of an object literal or type literal
+    }
+    return name;
+  }
+
+  // The name a function is declared with and its 0-indexed line, as the code index knows them:
+  // `getAllFlows` for the method, `handle` for `const handle = () => {...}`
+  private getDeclaredName(declaration: Node): { name: string; line: number } | undefined {
+    const parent = declaration.getParent();
+    const named =
+      (Node.isArrowFunction(declaration) || Node.isFunctionExpression(declaration)) &&
+      (Node.isVariableDeclaration(parent) ||
+        Node.isPropertyDeclaration(parent) ||
+        Node.isPropertyAssignment(parent))
+        ? parent
+        : declaration;
+    const name = Node.hasName(named) ? named.getName() : undefined;
+    return name ? { name, line: named.getStartLineNumber() - 1 } : undefined;
+  }
+
+  // Names of the functions that may lead to a call to `target`. Undefined when the code index
+  // can't tell, including while open documents have changes it hasn't seen.
+  private getFunctionsReaching(target: Node): Set<string> | undefined {
+    const declared = this.getDeclaredName(target);
+    const hasUnsavedChanges = vscode.workspace.textDocuments.some(
+      (document) => DOCUMENT_EXTENSIONS[document.languageId] && this.hasUnsavedText(document)
+    );
+    if (!this.codeIndex || !declared || hasUnsavedChanges) {
+      return undefined;
+    }
+    // Listeners aren't in the index: whatever emits an event or posts a message may lead there
+    return this.codeIndex.getFunctionsReaching(
+      declared.name,
+      (callee) => ["emit", "fire", "dispatchEvent"].includes(callee) || /postMessage/i.test(callee)
+    );
+  }
+
+  // Whether the code index knows the function and none of its calls lead to the target. Functions
+  // it doesn't know, e.g. a `memo(function Item() {...})`, are assumed to lead there.
+  private cannotReachTarget(declaration: Node, reachingFunctions: Set<string>): boolean {
+    const declared = this.getDeclaredName(declaration);
+    if (!declared || !this.codeIndex || reachingFunctions.has(declared.name)) {
+      return false;
+    }
+    const filePath = path.normalize(declaration.getSourceFile().getFilePath());
+    return this.codeIndex
+      .findSymbols(declared.name)
+      .some(
+        (symbol) => path.normalize(symbol.filePath) === filePath && symbol.line === declared.line
+      );
+  }
+
+  // The function or method the code index knows by the callee's name, when only one has it. A
+  // last resort for calls the type checker can't follow, e.g. on an `any` receiver.
+  private findIndexedDeclaration(callee: Node, state: ParseState): FunctionLike | undefined {
+    const name = this.getCalleeName(callee);
+    if (!name || !this.codeIndex?.isReady()) {
+      return undefined;
+    }
+    const symbols = this.codeIndex
+      .findSymbols(name)
+      .filter(
+        (symbol) => symbol.name === name && (symbol.kind === "function" || symbol.kind === "method")
+      );
+    if (symbols.length !== 1) {
+      return undefined;
+    }
+    const [{ filePath, line }] = symbols;
+    const [sourceFile] = this.loadSourceFiles([filePath], state);
+    const found = sourceFile && this.findFunctionByName(sourceFile, name, line + 1);
+    return found && this.getFunctionLikeWithBody(found);
+  }
+
+  private resolveFunctionDeclaration(callee: Node): FunctionLike | undefined {
+    const nameNode = Node.isPropertyAccessExpression(callee) ? callee.getNameNode() : callee;
+    if (!Node.isIdentifier(nameNode)) {
+      return undefined;
+    }
+    let definitions: Node[];
+    try {
+      definitions = nameNode.getDefinitionNodes();
+    } catch (error) {
+      Logger.error(`AST Service: Could not resolve definition of ${callee.getText()}`, error);
+      return undefined;
+    }
+    for (const definition of definitions) {
+      const functionLike = this.getFunctionLikeWithBody(definition);
+      if (functionLike) {
+        return functionLike;
+      }
+    }
+    return undefined;
+  }
+
+  private getFunctionLikeWithBody(node: Node): FunctionLike | undefined {
+    let candidate: Node | undefined = node;
+    if (
+      Node.isVariableDeclaration(node) ||
+      Node.isPropertyDeclaration(node) ||
+      Node.isPropertyAssignment(node)
+    ) {
+      candidate = node.getInitializer();
+    }
+    if (Node.isCallExpression(candidate)) {
+      // e.g. `useCallback(() => ..., [])` or `memo(function Item() {...})`
+      const calleeName = this.getCalleeName(candidate.getExpression());
+      candidate =
+        calleeName && FUNCTION_WRAPPERS.includes(calleeName)
+          ? candidate.getArguments()[0]
+          : undefined;
+    }
+    if (
+      candidate &&
+      (Node.isFunctionDeclaration(candidate) ||
+        Node.isMethodDeclaration(candidate) ||
+        Node.isArrowFunction(candidate) ||
+        Node.isFunctionExpression(candidate)) &&
+      candidate.getBody()
+    ) {
+      return candidate;
+    }
+    return undefined;
+  }
+
+  private isExpandablePath(filePath: string, state: ParseState): boolean {
+    if (this.virtualPaths.has(filePath)) {
+      return true; // An untitled or virtual document the user is capturing from
+    }
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    if (!workspaceFolder) {
+      return false; // Only follow calls into code that belongs to the workspace
+    }
+    const relativePath = path.relative(workspaceFolder.uri.fsPath, filePath);
+    return !matchesGlob(relativePath, state.options.excludePaths);
+  }
+
+  private getDeclarationKey(declaration: Node): string {
+    return `${declaration.getSourceFile().getFilePath()}:${declaration.getStart()}`;
+  }
+
+  // --- Exits and errors ---
+  // Early returns and throws end the flow through a function with an ExitPoint node. A throw
+  // goes to the innermost enclosing `catch`, even one in a caller, or escapes the flow.
+
+  private visitReturnStatement(
+    node: ReturnStatement,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const expression = node.getExpression();
+    let current = expression ? this.visit(expression, incoming, state) : incoming;
+    const body = node.getParent();
+    const isFinalReturn =
+      Node.isBlock(body) &&
+      Node.isFunctionLikeDeclaration(body.getParent()) &&
+      body.getStatements().slice(-1)[0] === node;
+    if (!isFinalReturn) {
+      const label = expression ? `return ${this.summarizeText(expression.getText())}` : "return";
+      const returnNodeId = this.addFlowNode(
+        {
+          label,
+          type: "ExitPoint",
+          codeReference: this.createCodeReference(node),
+          description: "Early return",
+        },
+        current,
+        state
+      );
+      current = [{ from: returnNodeId, type: "DirectCall" }];
+    }
+    const returns = state.returnCollectors[state.returnCollectors.length - 1];
+    if (returns) {
+      returns.push(...current);
+    }
+    return []; // Nothing after a return runs
+  }
+
+  private visitThrowStatement(
+    node: ThrowStatement,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const expression = node.getExpression();
+    const current = this.visit(expression, incoming, state);
+    const handler = state.errorHandlers[state.errorHandlers.length - 1];
+    const thrown = this.summarizeText(expression.getText());
+    const throwNodeId = this.addFlowNode(
+      {
+        label: `throw ${thrown}`,
+        type: "ExitPoint",
+        codeReference: this.createCodeReference(node),
+        description: handler
+          ? `Throws ${thrown}, caught by an enclosing catch`
+          : `Throws ${thrown}, escapes the flow uncaught`,
+        properties: handler ? { throws: true } : { throws: true, escapes: true },
+      },
+      current,
+      state
+    );
+    if (handler) {
+      handler.edges.push({ from: throwNodeId, type: "Error", label: "throws" });
+    }
+    return [];
+  }
+
+  private visitTryStatement(
+    node: TryStatement,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const catchClause = node.getCatchClause();
+    const finallyBlock = node.getFinallyBlock();
+    const errors: PendingEdge[] = [];
+    // Returns in the try and catch blocks run the finally block before leaving the function
+    const returns: PendingEdge[] = [];
+    if (finallyBlock) {
+      state.returnCollectors.push(returns);
+    }
+    if (catchClause) {
+      state.errorHandlers.push({ tryBlock: node.getTryBlock(), edges: errors });
+    }
+    let exits = this.visit(node.getTryBlock(), incoming, state);
+
+    if (catchClause) {
+      state.errorHandlers.pop();
+      const variable = catchClause.getVariableDeclaration();
+      const catchNodeId = this.addFlowNode(
+        {
+          label: variable ? `catch (${variable.getNameNode().getText()})` : "catch",
+          type: "ErrorHandler",
+          codeReference: this.createCodeReference(catchClause),
+          description: "Handles errors thrown in the try block",
+        },
+        // Nothing in the try block was seen to throw: anything in it might
+        errors.length > 0
+          ? errors
+          : incoming.map((pending) => ({ ...pending, type: "Error", label: "throws" })),
+        state
+      );
+      exits = [
+        ...exits,
+        ...this.visit(catchClause.getBlock(), [{ from: catchNodeId, type: "DirectCall" }], state),
+      ];
+    }
+
+    if (!finallyBlock) {
+      return exits;
+    }
+    state.returnCollectors.pop();
+    const finallyExits = this.visit(finallyBlock, [...exits, ...returns], state);
+    if (returns.length > 0) {
+      // The finally block is drawn once: when it ran after a return, its end leaves the function
+      state.returnCollectors[state.returnCollectors.length - 1]?.push(...finallyExits);
+    }
+    return exits.length > 0 ? finallyExits : []; // Only returns reach the finally block
+  }
+
+  // A call written inside a `try` block may throw into the matching `catch`
+  private addErrorEdge(call: Node, callNodeId: string, state: ParseState): void {
+    const handler = state.errorHandlers[state.errorHandlers.length - 1];
+    if (
+      handler &&
+      handler.tryBlock.getSourceFile() === call.getSourceFile() &&
+      handler.tryBlock.containsRange(call.getPos(), call.getEnd())
+    ) {
+      handler.edges.push({ from: callNodeId, type: "Error", label: "throws" });
+    }
+  }
+
+  private visitIfStatement(
+    node: IfStatement,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const condition = node.getExpression();
+    const beforeCondition = this.visit(condition, incoming, state);
+    const conditionNodeId = this.addFlowNode(
+      {
+        label: `if (${this.summarizeText(condition.getText())})`,
+        type: "Condition",
+        codeReference: this.createCodeReference(condition),
+        description: `Condition: ${condition.getText()}`,
+      },
+      beforeCondition,
+      state
+    );
+
+    const thenExits = this.visit(
+      node.getThenStatement(),
+      [{ from: conditionNodeId, type: "ConditionalTrue", label: "true" }],
+      state
+    );
+    const falseEdge: PendingEdge = {
+      from: conditionNodeId,
+      type: "ConditionalFalse",
+      label: "false",
+    };
+    const elseStatement = node.getElseStatement();
+    const elseExits = elseStatement ? this.visit(elseStatement, [falseEdge], state) : [falseEdge];
+    return [...thenExits, ...elseExits];
+  }
+
+  private visitSwitchStatement(
+    node: SwitchStatement,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const expression = node.getExpression();
+    const beforeSwitch = this.visit(expression, incoming, state);
+    const switchNodeId = this.addFlowNode(
+      {
+        label: `switch (${this.summarizeText(expression.getText())})`,
+        type: "Condition",
+        codeReference: this.createCodeReference(expression),
+        description: `Switch on: ${expression.getText()}`,
+      },
+      beforeSwitch,
+      state
+    );
+
+    const jumps: JumpTarget = {
+      kind: "switch",
+      label: this.getStatementLabel(node),
+      breaks: [],
+      continues: [],
+    };
+    state.jumpTargets.push(jumps);
+    let fallthrough: PendingEdge[] = [];
+    let hasDefault = false;
+    node.getClauses().forEach((clause) => {
+      let entry: PendingEdge;
+      if (Node.isDefaultClause(clause)) {
+        hasDefault = true;
+        entry = { from: switchNodeId, type: "ConditionalFalse", label: "default" };
+      } else {
+        entry = {
+          from: switchNodeId,
+          type: "ConditionalTrue",
+          label: `case ${this.summarizeText(clause.getExpression().getText())}`,
+        };
+      }
+      let clauseExits = [entry, ...fallthrough];
+      clause.getStatements().forEach((statement) => {
+        clauseExits = this.visit(statement, clauseExits, state);
+      });
+      // Whatever isn't ended by a break, return, throw or continue falls into the next clause
+      fallthrough = clauseExits;
+    });
+    state.jumpTargets.pop();
+    const exits = [...fallthrough, ...jumps.breaks];
+    if (!hasDefault) {
+      exits.push({ from: switchNodeId, type: "ConditionalFalse", label: "default" });
+    }
+    return exits;
+  }
+
+  private visitConditionalExpression(
+    node: ConditionalExpression,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const condition = node.getCondition();
+    const beforeCondition = this.visit(condition, incoming, state);
+    const conditionNodeId = this.addFlowNode(
+      {
+        label: `${this.summarizeText(condition.getText())} ?`,
+        type: "Condition",
+        codeReference: this.createCodeReference(condition),
+        description: `Conditional expression: ${condition.getText()}`,
+      },
+      beforeCondition,
+      state
+    );
+    const trueExits = this.visit(
+      node.getWhenTrue(),
+      [{ from: conditionNodeId, type: "ConditionalTrue", label: "true" }],
+      state
+    );
+    const falseExits = this.visit(
+      node.getWhenFalse(),
+      [{ from: conditionNodeId, type: "ConditionalFalse", label: "false" }],
+      state
+    );
+    return [...trueExits, ...falseExits];
+  }
+
+  private visitLoop(
+    node: ForStatement | ForOfStatement | ForInStatement | WhileStatement | DoStatement,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    let beforeLoop = incoming;
+    let header: string;
+    if (Node.isForStatement(node)) {
+      const initializer = node.getInitializer();
+      if (initializer) {
+        beforeLoop = this.visit(initializer, beforeLoop, state);
+      }
+      header = `for (${this.summarizeText(node.getCondition()?.getText() || "")})`;
+    } else if (Node.isForOfStatement(node) || Node.isForInStatement(node)) {
+      // The iterated expression is evaluated once, before the first iteration
+      beforeLoop = this.visit(node.getExpression(), beforeLoop, state);
+      const keyword = Node.isForOfStatement(node) ? "of" : "in";
+      header = `for (${node.getInitializer().getText()} ${keyword} ${this.summarizeText(
+        node.getExpression().getText()
+      )})`;
+    } else {
+      header = `while (${this.summarizeText(node.getExpression().getText())})`;
+    }
+
+    const loopNodeId = this.addFlowNode(
+      {
+        label: header,
+        type: "Loop",
+        codeReference: this.createCodeReference(node),
+        description: `Loop: ${header}`,
+      },
+      beforeLoop,
+      state
+    );
+
+    let bodyExits: PendingEdge[] = [{ from: loopNodeId, type: "DirectCall", label: "iterate" }];
+    if (Node.isWhileStatement(node) || Node.isDoStatement(node)) {
+      bodyExits = this.visit(node.getExpression(), bodyExits, state);
+    } else if (Node.isForStatement(node) && node.getCondition()) {
+      bodyExits = this.visit(node.getConditionOrThrow(), bodyExits, state);
+    }
+    const jumps: JumpTarget = {
+      kind: "loop",
+      label: this.getStatementLabel(node),
+      breaks: [],
+      continues: [],
+    };
+    state.jumpTargets.push(jumps);
+    bodyExits = this.visit(node.getStatement(), bodyExits, state);
+    state.jumpTargets.pop();
+    // A `continue` skips the rest of the body, not the incrementor
+    bodyExits = [...bodyExits, ...jumps.continues];
+    if (Node.isForStatement(node) && node.getIncrementor()) {
+      bodyExits = this.visit(node.getIncrementorOrThrow(), bodyExits, state);
+    }
+    // Back-edge to the loop header for the next iteration
+    this.connect(
+      bodyExits.map((edge) => ({
+        ...edge,
+        label: edge.label || "next",
+        properties: { ...edge.properties, backEdge: true },
+      })),
+      loopNodeId,
+      state
+    );
+
+    return [{ from: loopNodeId, type: "DirectCall", label: "done" }, ...jumps.breaks];
+  }
+
+  // A labeled loop or switch takes the label itself; any other statement can only be left with
+  // `break label`
+  private visitLabeledStatement(
+    node: LabeledStatement,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const statement = node.getStatement();
+    if (
+      Node.isForStatement(statement) ||
+      Node.isForOfStatement(statement) ||
+      Node.isForInStatement(statement) ||
+      Node.isWhileStatement(statement) ||
+      Node.isDoStatement(statement) ||
+      Node.isSwitchStatement(statement)
+    ) {
+      return this.visit(statement, incoming, state);
+    }
+    const jumps: JumpTarget = {
+      kind: "block",
+      label: node.getLabel().getText(),
+      breaks: [],
+      continues: [],
+    };
+    state.jumpTargets.push(jumps);
+    const exits = this.visit(statement, incoming, state);
+    state.jumpTargets.pop();
+    return [...exits, ...jumps.breaks];
+  }
+
+  // Like `return` goes to the function's exits, `break` goes to the exits of the loop or switch
+  // and `continue` to the next iteration of the loop
+  private visitJumpStatement(
+    node: BreakStatement | ContinueStatement,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): PendingEdge[] {
+    const label = node.getLabel()?.getText();
+    const isBreak = Node.isBreakStatement(node);
+    const target = [...state.jumpTargets]
+      .reverse()
+      .find(
+        (jumps) =>
+          (label ? jumps.label === label : jumps.kind !== "block") &&
+          (isBreak || jumps.kind === "loop")
+      );
+    if (!target) {
+      return incoming; // Outside the captured code, e.g. a selection inside the loop body
+    }
+    (isBreak ? target.breaks : target.continues).push(...incoming);
+    return []; // Nothing after a jump runs
+  }
+
+  // The label of a labeled loop or switch
+  private getStatementLabel(node: Node): string | undefined {
+    const parent = node.getParent();
+    return Node.isLabeledStatement(parent) ? parent.getLabel().getText() : undefined;
+  }
+
+  // Merges runs of calls to the same function and marks the nodes each loop repeats
+  private normalizeFlow(
+    nodes: FlowNode[],
+    edges: FlowEdge[]
+  ): { nodes: FlowNode[]; edges: FlowEdge[] } {
+    const collapsed = collapseRepeatedCalls(nodes, edges);
+    return { nodes: markLoopBodies(collapsed.nodes, collapsed.edges), edges: collapsed.edges };
+  }
+
+  private addFlowNode(
+    node: Omit<FlowNode, "id">,
+    incoming: PendingEdge[],
+    state: ParseState
+  ): string {
+    const id = uuidv4();
+    state.nodes.push({ id, ...node });
+    this.connect(incoming, id, state);
+    return id;
+  }
+
+  private connect(incoming: PendingEdge[], to: string, state: ParseState): void {
+    incoming.forEach((pending) => {
+      if (pending.from === to) {
+        return;
+      }
+      state.edges.push({
+        id: uuidv4(),
+        from: pending.from,
+        to,
+        label: pending.label,
+        type: pending.type,
+        properties: pending.properties,
+      });
+    });
+  }
+
+  private getRangePlacement(node: Node, state: ParseState): "inside" | "partial" | "outside" {
+    if (!state.range) {
+      return "inside";
+    }
+    const nodeStart = node.getStart();
+    const nodeEnd = node.getEnd();
+    if (nodeEnd <= state.range.start || nodeStart >= state.range.end) {
+      return "outside";
+    }
+    if (nodeStart < state.range.start || nodeEnd > state.range.end) {
+      return "partial";
+    }
+    return "inside";
+  }
+
+  // A statement is cut when an end of the range falls inside it but not inside one of its
+  // nested blocks, whose statements can be in or out of the range on their own
+  private isCutByRange(node: Node, state: ParseState): boolean {
+    if (!state.range || !Node.isStatement(node) || Node.isBlock(node) || this.isBlockLike(node)) {
+      return false;
+    }
+    const blocks = node.getDescendants().filter((descendant) => this.isBlockLike(descendant));
+    return [state.range.start, state.range.end]
+      .filter((offset) => offset > node.getStart() && offset < node.getEnd())
+      .some(
+        (offset) => !blocks.some((block) => offset > block.getStart() && offset < block.getEnd())
+      );
+  }
+
+  private isBlockLike(node: Node): boolean {
+    return (
+      Node.isBlock(node) ||
+      Node.isCaseBlock(node) ||
+      Node.isModuleBlock(node) ||
+      Node.isClassDeclaration(node) ||
+      Node.isSourceFile(node)
+    );
+  }
+
+  // The innermost block, or the file, containing the whole range
+  private findEnclosingBlock(sourceFile: SourceFile, range: { start: number; end: number }): Node {
+    const innermost = sourceFile.getDescendantAtPos(range.start) || sourceFile;
+    return (
+      [innermost, ...innermost.getAncestors()].find(
+        (node) =>
+          (Node.isBlock(node) || Node.isModuleBlock(node) || Node.isCaseClause(node)) &&
+          node.getStart() <= range.start &&
+          node.getEnd() >= range.end
+      ) || sourceFile
+    );
+  }
+
+  // Character offset of a 0-indexed position, clamped to the file like editor positions are
+  private getOffset(sourceFile: SourceFile, position: { line: number; character: number }): number {
+    const lineStarts = sourceFile.compilerNode.getLineStarts();
+    const line = Math.min(Math.max(position.line, 0), lineStarts.length - 1);
+    const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] : sourceFile.getEnd();
+    return Math.min(lineStarts[line] + Math.max(position.character, 0), lineEnd);
+  }
+
+  private summarizeText(text: string, maxLength: number = 40): string {
+    const singleLine = text.replace(/\s+/g, " ").trim();
+    return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 3)}...` : singleLine;
+  }
+
+  private findFunctionByName(
+    sourceFile: SourceFile,
+    functionName: string,
+    targetLine?: number
+  ): FunctionDeclaration | MethodDeclaration | ArrowFunction | undefined {
+    const functions = sourceFile.getFunctions();
+    let foundFunc: FunctionDeclaration | MethodDeclaration | ArrowFunction | undefined;
+
+    foundFunc = functions.find(
+      (f) =>
+        f.getName() === functionName &&
+        (targetLine === undefined || this.isNodeAroundLine(f, targetLine))
+    );
+    if (foundFunc) return foundFunc;
+
+    sourceFile.getClasses().forEach((c) => {
+      if (foundFunc) return;
+      foundFunc = c
+        .getMethods()
+        .find(
+          (m) =>
+            m.getName() === functionName &&
+            (targetLine === undefined || this.isNodeAroundLine(m, targetLine))
+        );
+      if (foundFunc) return;
+      // Check for arrow function properties
+      c.getProperties().forEach((p) => {
+        if (foundFunc) return;
+        const initializer = p.getInitializer();
+        if (
+          initializer &&
+          Node.isArrowFunction(initializer) &&
+          p.getName() === functionName &&
+          (targetLine === undefined || this.isNodeAroundLine(p, targetLine))
+        ) {
+          foundFunc = initializer;
+        }
+      });
+    });
+    if (foundFunc) return foundFunc;
+
+    // Check top-level variable declarations for arrow functions
+    sourceFile.getVariableDeclarations().forEach((vd) => {
+      if (foundFunc) return;
+      const initializer = vd.getInitializer();
+      if (
+        Node.isArrowFunction(initializer) &&
+        vd.getName() === functionName &&
+        (targetLine === undefined || this.isNodeAroundLine(vd, targetLine))
+      ) {
+        foundFunc = initializer;
+      }
+    });
+
+    return foundFunc;
+  }
+
+  private isNodeAroundLine(node: Node, targetLine: number): boolean {
+    const startLine = node.getStartLineNumber();
+    const endLine = node.getEndLineNumber();
+    return targetLine >= startLine && targetLine <= endLine;
+  }
+
+  public async getFunctionNameAtCursor(
+    filePath: string,
     position: vscode.Position
   ): Promise<string | undefined> {
-    let sourceFile = this.project.getSourceFile(filePath);
+    if (!this.isParsable(filePath)) {
+      return this.callHierarchy.getFunctionNameAtCursor(filePath, position);
+    }
+    const sourceFile = await this.getSourceFile(filePath);
     if (!sourceFile) {
-      sourceFile = this.project.addSourceFileAtPath(filePath);
+      return undefined;
     }
-    await sourceFile.refreshFromFileSystem();
 
     const posInFile = sourceFile.compilerNode.getPositionOfLineAndCharacter(
       position.line,
@@ -0,0 +1,399 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { FlowNode, FlowEdge, CodeReference } from "../types/flowTypes";
+import { Logger } from "./logger";
+import { matchesGlob } from "./globMatcher";
+import { toDocumentPath, toDocumentUri } from "./documentPaths";
+import { CaptureOptions, findIgnoreRule, getCaptureOptions } from "./captureOptions";
+import { collapseRepeatedCalls, keepPathsToTargets } from "./flowGraph";
+
+const FUNCTION_SYMBOL_KINDS = [
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor,
+];
+
+// Document symbols come as a tree (DocumentSymbol) or a flat list (SymbolInformation)
+interface FunctionSymbol {
+  name: string;
+  range: vscode.Range;
+  selectionRange: vscode.Range;
+}
+
+interface HierarchyState {
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  options: CaptureOptions;
+  depth: number;
+  // Items currently being expanded, keyed by getItemKey, mapped to the node that entered them
+  activeItems: Map<string, string>;
+  targetKey?: string; // Key of the function a call path search is looking for
+  reachedTargets: string[]; // Call nodes that call the target function
+  // Calls made by each function, asked from the language server once per capture
+  outgoingCalls: Map<string, Promise<vscode.CallHierarchyOutgoingCall[]>>;
+  // Functions expanded completely, mapped to the call node that entered them and its depth, so
+  // other calls to them link to that expansion instead of asking for the same calls again
+  expandedItems: Map<string, { callNodeId: string; depth: number }>;
+}
+
+/**
+ * Captures flows through the call hierarchy of whatever language server handles a file, for the
+ * languages ts-morph can't parse (Python, Go, ...). Language servers only report calls, so the
+ * flow has no branches, loops or data flow: calls follow each other in the order they appear.
+ */
+export class CallHierarchyService {
+  /** Same contract as `AstService.parseFunctionCalls`. */
+  public async parseFunctionCalls(
+    filePath: string,
+    functionName?: string,
+    line?: number, // 1-indexed, tells functions with the same name apart
+    selection?: CodeReference["range"]
+  ): Promise<{ nodes: FlowNode[]; edges: FlowEdge[] }> {
+    Logger.log(`CallHierarchy: Parsing ${filePath}, function: ${functionName}`);
+    const uri = toDocumentUri(filePath);
+    const entryNodeId = uuidv4();
+    let item: vscode.CallHierarchyItem | undefined;
+    let entryNode: FlowNode;
+    let range: vscode.Range | undefined;
+    if (functionName) {
+      item = await this.findFunctionItem(uri, functionName, line);
+      entryNode = {
+        id: entryNodeId,
+        label: functionName,
+        type: "EntryPoint",
+        codeReference: item && this.createCodeReference(item.uri, item.range),
+        description: `Entry point: ${functionName}`,
+      };
+    } else if (selection) {
+      // Only the calls of the function around the start of the selection can be listed
+      range = new vscode.Range(
+        selection.start.line,
+        selection.start.character,
+        selection.end.line,
+        selection.end.character
+      );
+      item = (await this.prepareCallHierarchy(uri, range.start))[0];
+      entryNode = {
+        id: entryNodeId,
+        label: `Code Block (Lines ${selection.start.line + 1}-${selection.end.line + 1})`,
+        type: "EntryPoint",
+        codeReference: this.createCodeReference(uri, range),
+        description: `Selected code block in ${path.basename(filePath)}`,
+      };
+    } else {
+      Logger.error("CallHierarchy: Capturing a whole file needs a function or a selection.");
+      return { nodes: [], edges: [] };
+    }
+    if (!item) {
+      Logger.error(`CallHierarchy: No call hierarchy available for ${filePath}.`);
+      return { nodes: [], edges: [] };
+    }
+
+    const state: HierarchyState = {
+      nodes: [entryNode],
+      edges: [],
+      options: getCaptureOptions(),
+      depth: 0,
+      activeItems: new Map([[this.getItemKey(item), entryNodeId]]),
+      reachedTargets: [],
+      outgoingCalls: new Map(),
+      expandedItems: new Map(),
+    };
+    await this.visitItem(item, [entryNodeId], state, range);
+    const flow = collapseRepeatedCalls(state.nodes, state.edges);
+    Logger.log(
+      `CallHierarchy: Parsing complete. Nodes: ${flow.nodes.length}, Edges: ${flow.edges.length}`
+    );
+    return flow;
+  }
+
+  /** Same contract as `AstService.findCallPaths`. */
+  public async findCallPaths(
+    startFilePath: string,
+    startFunctionName: string,
+    startLine: number,
+    endFilePath: string,
+    endFunctionName: string,
+    endLine: number
+  ): Promise<{ nodes: FlowNode[]; edges: FlowEdge[]; targetNodeIds: string[] }> {
+    Logger.log(
+      `CallHierarchy: Searching call paths from ${startFunctionName} (${startFilePath}) to ${endFunctionName} (${endFilePath})`
+    );
+    const noPath = { nodes: [], edges: [], targetNodeIds: [] };
+    const startItem = await this.findFunctionItem(
+      toDocumentUri(startFilePath),
+      startFunctionName,
+      startLine
+    );
+    const endItem = await this.findFunctionItem(
+      toDocumentUri(endFilePath),
+      endFunctionName,
+      endLine
+    );
+    if (!startItem || !endItem) {
+      Logger.error(
+        `CallHierarchy: Could not find ${
+          startItem ? endFunctionName : startFunctionName
+        } for call path search.`
+      );
+      return noPath;
+    }
+
+    const entryNodeId = uuidv4();
+    const options = getCaptureOptions();
+    const state: HierarchyState = {
+      nodes: [
+        {
+          id: entryNodeId,
+          label: startFunctionName,
+          type: "EntryPoint",
+          codeReference: this.createCodeReference(startItem.uri, startItem.range),
+          description: `Entry point: ${startFunctionName}`,
+        },
+      ],
+      edges: [],
+      options: { ...options, maxDepth: options.maxPathSearchDepth },
+      depth: 0,
+      activeItems: new Map([[this.getItemKey(startItem), entryNodeId]]),
+      targetKey: this.getItemKey(endItem),
+      reachedTargets: [],
+      outgoingCalls: new Map(),
+      expandedItems: new Map(),
+    };
+    await this.visitItem(startItem, [entryNodeId], state);
+
+    if (state.reachedTargets.length === 0) {
+      Logger.log(`CallHierarchy: No call path found to ${endFunctionName}.`);
+      return noPath;
+    }
+    const kept = keepPathsToTargets(state.nodes, state.edges, entryNodeId, state.reachedTargets);
+    const paths = collapseRepeatedCalls(kept.nodes, kept.edges);
+    return {
+      ...paths,
+      targetNodeIds: state.reachedTargets.filter((id) =>
+        paths.nodes.some((node) => node.id === id)
+      ),
+    };
+  }
+
+  /** The name of the innermost function or method around the position, from document symbols. */
+  public async getFunctionNameAtCursor(
+    filePath: string,
+    position: vscode.Position
+  ): Promise<string | undefined> {
+    const symbols = await this.getFunctionSymbols(toDocumentUri(filePath));
+    const containing = symbols
+      .filter((symbol) => symbol.range.contains(position))
+      .sort((a, b) => (a.range.contains(b.range) ? 1 : b.range.contains(a.range) ? -1 : 0));
+    return containing[0]?.name;
+  }
+
+  // Adds a node for each call the function makes, in order, following them into their callees
+  private async visitItem(
+    item: vscode.CallHierarchyItem,
+    incoming: string[],
+    state: HierarchyState,
+    range?: vscode.Range // Only calls made in this range of the function
+  ): Promise<string[]> {
+    const outgoingCalls = await this.getOutgoingCalls(item, state);
+    // A function called twice gets a node per call site
+    const calls = outgoingCalls
+      .flatMap((call) => call.fromRanges.map((fromRange) => ({ to: call.to, fromRange })))
+      .filter((call) => !range || range.contains(call.fromRange))
+      .sort((a, b) => a.fromRange.start.compareTo(b.fromRange.start));
+
+    let current = incoming;
+    for (const call of calls) {
+      const callName = call.to.detail ? `${call.to.detail}.${call.to.name}` : call.to.name;
+      const hiddenBy = findIgnoreRule(state.options.ignore, {
+        names: [call.to.name, callName],
+        modulePath: toDocumentPath(call.to.uri),
+      });
+      const callNodeId = uuidv4();
+      state.nodes.push({
+        id: callNodeId,
+        label: call.to.name,
+        type: "Function",
+        codeReference: {
+          ...this.createCodeReference(item.uri, call.fromRange),
+          declaration: this.createCodeReference(call.to.uri, call.to.selectionRange),
+        },
+        description: `Call to ${callName}`,
+        properties: hiddenBy ? { hidden: true, hiddenBy } : undefined,
+      });
+      current.forEach((from) =>
+        state.edges.push({ id: uuidv4(), from, to: callNodeId, type: "DirectCall" })
+      );
+      // The body of a hidden call is noise too, unless a path search has to go through it
+      current =
+        hiddenBy && !state.targetKey
+          ? [callNodeId]
+          : await this.expandItem(call.to, callNodeId, state);
+    }
+    return current;
+  }
+
+  private async expandItem(
+    item: vscode.CallHierarchyItem,
+    callNodeId: string,
+    state: HierarchyState
+  ): Promise<string[]> {
+    const key = this.getItemKey(item);
+    if (key === state.targetKey) {
+      state.reachedTargets.push(callNodeId); // The path ends here, don't expand the target
+      return [callNodeId];
+    }
+    if (state.depth >= state.options.maxDepth || !this.isExpandablePath(item.uri, state)) {
+      return [callNodeId];
+    }
+    const expanded = state.expandedItems.get(key);
+    // Unless the earlier expansion was cut shorter by the depth limit than this one would be
+    if (expanded && expanded.depth <= state.depth) {
+      state.edges.push({
+        id: uuidv4(),
+        from: callNodeId,
+        to: expanded.callNodeId,
+        label: "same calls",
+        type: "DirectCall",
+        properties: { backEdge: true },
+      });
+      return [callNodeId];
+    }
+    const activeNodeId = state.activeItems.get(key);
+    if (activeNodeId) {
+      state.edges.push({
+        id: uuidv4(),
+        from: callNodeId,
+        to: activeNodeId,
+        label: "recursion",
+        type: "DirectCall",
+        properties: { backEdge: true },
+      });
+      return [callNodeId];
+    }
+
+    state.activeItems.set(key, callNodeId);
+    state.depth++;
+    const exits = await this.visitItem(item, [callNodeId], state);
+    state.depth--;
+    state.activeItems.delete(key);
+    state.expandedItems.set(key, { callNodeId, depth: state.depth });
+    return exits;
+  }
+
+  private getOutgoingCalls(
+    item: vscode.CallHierarchyItem,
+    state: HierarchyState
+  ): Promise<vscode.CallHierarchyOutgoingCall[]> {
+    const key = this.getItemKey(item);
+    let outgoingCalls = state.outgoingCalls.get(key);
+    if (!outgoingCalls) {
+      outgoingCalls = Promise.resolve(
+        vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>(
+          "vscode.provideOutgoingCalls",
+          item
+        )
+      ).then(
+        (calls) => calls || [],
+        (error) => {
+          Logger.error(`CallHierarchy: Could not get the calls made by ${item.name}`, error);
+          return [];
+        }
+      );
+      state.outgoingCalls.set(key, outgoingCalls);
+    }
+    return outgoingCalls;
+  }
+
+  private async findFunctionItem(
+    uri: vscode.Uri,
+    functionName: string,
+    line?: number
+  ): Promise<vscode.CallHierarchyItem | undefined> {
+    const candidates = (await this.getFunctionSymbols(uri)).filter(
+      // Some servers name methods after their receiver, e.g. `(*Server).Handle` in Go
+      (symbol) => symbol.name === functionName || symbol.name.endsWith(`.${functionName}`)
+    );
+    const symbol =
+      candidates.find(
+        (candidate) =>
+          line === undefined ||
+          (candidate.range.start.line <= line - 1 && line - 1 <= candidate.range.end.line)
+      ) || candidates[0];
+    return symbol
+      ? (await this.prepareCallHierarchy(uri, symbol.selectionRange.start))[0]
+      : undefined;
+  }
+
+  private async prepareCallHierarchy(
+    uri: vscode.Uri,
+    position: vscode.Position
+  ): Promise<vscode.CallHierarchyItem[]> {
+    try {
+      return (
+        (await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>(
+          "vscode.prepareCallHierarchy",
+          uri,
+          position
+        )) || []
+      );
+    } catch (error) {
+      Logger.error(`CallHierarchy: No call hierarchy provider for ${uri.toString()}`, error);
+      return [];
+    }
+  }
+
+  private async getFunctionSymbols(uri: vscode.Uri): Promise<FunctionSymbol[]> {
+    let symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[] = [];
+    try {
+      symbols =
+        (await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+          "vscode.executeDocumentSymbolProvider",
+          uri
+        )) || [];
+    } catch (error) {
+      Logger.error(`CallHierarchy: No document symbols for ${uri.toString()}`, error);
+    }
+    const functions: FunctionSymbol[] = [];
+    const collect = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+      const range = "location" in symbol ? symbol.location.range : symbol.range;
+      if (FUNCTION_SYMBOL_KINDS.includes(symbol.kind)) {
+        functions.push({
+          name: symbol.name,
+          range,
+          selectionRange: "selectionRange" in symbol ? symbol.selectionRange : range,
+        });
+      }
+      if ("children" in symbol) {
+        symbol.children.forEach(collect);
+      }
+    };
+    symbols.forEach(collect);
+    return functions;
+  }
+
+  private isExpandablePath(uri: vscode.Uri, state: HierarchyState): boolean {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!workspaceFolder) {
+      return false; // Only follow calls into code that belongs to the workspace
+    }
+    const relativePath = path.posix.relative(workspaceFolder.uri.path, uri.path);
+    return !matchesGlob(relativePath, state.options.excludePaths);
+  }
+
+  private getItemKey(item: vscode.CallHierarchyItem): string {
+    const start = item.selectionRange.start;
+    return `${item.uri.toString()}:${start.line}:${start.character}`;
+  }
+
+  private createCodeReference(uri: vscode.Uri, range: vscode.Range): CodeReference {
+    return {
+      filePath: toDocumentPath(uri),
+      range: {
+        start: { line: range.start.line, character: range.start.character },
+        end: { line: range.end.line, character: range.end.character },
+      },
+    };
+  }
+}
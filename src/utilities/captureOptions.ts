@@ -0,0 +1,70 @@
+import * as vscode from "vscode";
+import { matchesGlob, matchesPattern } from "./globMatcher";
+
+// Calls matching every field set in a rule are hidden from the flow (see flowMaster.capture.ignore)
+export interface IgnoreRule {
+  callee?: string; // Glob or /regex/ on the called name, e.g. `Logger.*`
+  module?: string; // Glob on the path of the file declaring the callee
+  receiverType?: string; // Glob or /regex/ on the type of the object a method is called on
+}
+
+export interface CaptureOptions {
+  maxDepth: number; // How many levels of calls to follow into their definitions
+  excludePaths: string[]; // Glob patterns, relative to the workspace folder
+  maxPathSearchDepth: number; // How deep to search for the end pin's function
+  followComponents: boolean; // Whether JSX elements are followed into their components
+  ignore: IgnoreRule[];
+  partialStatements: "include" | "exclude"; // Statements the selection only partly covers
+}
+
+/**
+ * A helper function which reads the `flowMaster.capture` settings.
+ *
+ * @returns The options shared by every capture backend
+ */
+export function getCaptureOptions(): CaptureOptions {
+  const config = vscode.workspace.getConfiguration("flowMaster.capture");
+  return {
+    maxDepth: config.get<number>("maxDepth", 3),
+    excludePaths: config.get<string[]>("excludePaths", []),
+    maxPathSearchDepth: config.get<number>("maxPathSearchDepth", 8),
+    followComponents: config.get<boolean>("followComponents", true),
+    ignore: config.get<IgnoreRule[]>("ignore", []),
+    partialStatements: config.get<"include" | "exclude">("partialStatements", "include"),
+  };
+}
+
+/**
+ * A helper function which finds the first ignore rule matching a call.
+ *
+ * @remarks A rule matches when every field it sets matches. A rule on the receiver type never
+ * matches calls whose receiver type is unknown, e.g. calls found by a language server.
+ *
+ * @param rules The rules from `flowMaster.capture.ignore`
+ * @param call The names the call goes by (as written and qualified), the path of the file
+ * declaring the callee and a function computing the receiver type, which may be costly
+ * @returns The matching rule as JSON, stored in the node's `hiddenBy` property
+ */
+export function findIgnoreRule(
+  rules: IgnoreRule[],
+  call: { names: string[]; modulePath?: string; getReceiverType?: () => string | undefined }
+): string | undefined {
+  const rule = rules.find((rule) => {
+    if (!rule.callee && !rule.module && !rule.receiverType) {
+      return false;
+    }
+    const calleePattern = rule.callee;
+    if (calleePattern && !call.names.some((name) => matchesPattern(name, calleePattern))) {
+      return false;
+    }
+    if (rule.module && !(call.modulePath && matchesGlob(call.modulePath, [rule.module]))) {
+      return false;
+    }
+    if (rule.receiverType) {
+      const receiverType = call.getReceiverType?.();
+      return receiverType !== undefined && matchesPattern(receiverType, rule.receiverType);
+    }
+    return true;
+  });
+  return rule ? JSON.stringify(rule) : undefined;
+}
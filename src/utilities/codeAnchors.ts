@@ -0,0 +1,346 @@
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+import { CapturedFlow, CodeAnchor, CodeReference, FlowNode } from "../types/flowTypes";
+import { Logger } from "./logger";
+import { toDocumentUri } from "./documentPaths";
+import { mapCodeReferences } from "./flowPaths";
+
+type CodeRange = CodeReference["range"];
+
+// Lines above and below the code that are hashed into CodeAnchor.contextHash
+const CONTEXT_LINES = 2;
+
+/** Where the code of a reference is now. */
+export interface ResolvedReference {
+  status: "unchanged" | "moved" | "stale";
+  reference: CodeReference; // With the range and anchor of where the code moved to
+}
+
+export interface ResolvedFlow {
+  flow: CapturedFlow; // Follows the code that moved, with `properties.stale` set on the stale nodes
+  movedCount: number; // References whose code moved
+  staleNodeIds: string[]; // Nodes whose code can't be found anymore
+}
+
+// The text and symbols of a file, read once however many references point into it
+interface AnchorDocument {
+  lines: string[];
+  symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[];
+}
+
+/**
+ * A helper function which anchors the code references of flows to their code, so
+ * {@link resolveFlow} can find the code again after edits move it.
+ *
+ * @remarks Only the files of new or changed references are read: references that have an anchor
+ * already, or point at the same code as a reference of the stored flows, keep or reuse that
+ * anchor. References whose file can't be read are kept as they are. Files are read as they are
+ * open in the editor, unsaved changes included, like the capture.
+ *
+ * @param flows The flows, or any other objects holding code references
+ * @param storedFlows The flows as they are stored, whose anchors are reused
+ * @returns Copies of the flows with anchored references
+ */
+export async function anchorFlows<T extends object>(
+  flows: T[],
+  storedFlows: object[] = []
+): Promise<T[]> {
+  const storedAnchors = new Map<string, CodeAnchor>();
+  mapCodeReferences(storedFlows, (reference) => {
+    if (reference.anchor) {
+      storedAnchors.set(getReferenceKey(reference), reference.anchor);
+    }
+    return reference;
+  });
+  const reused = mapCodeReferences(flows, (reference) => {
+    const anchor = reference.anchor ?? storedAnchors.get(getReferenceKey(reference));
+    return anchor ? { ...reference, anchor } : reference;
+  });
+
+  const documents = await readDocuments(reused, (reference) => !reference.anchor);
+  return mapCodeReferences(reused, (reference) => {
+    const document = documents.get(reference.filePath);
+    return reference.anchor || !document
+      ? reference
+      : { ...reference, anchor: createAnchor(document, reference.range) };
+  });
+}
+
+/**
+ * A helper function which finds the code of a reference again, following it when edits moved it.
+ *
+ * @remarks References captured before anchors were stored can't be checked and are taken as
+ * unchanged.
+ *
+ * @param reference The stored reference
+ * @returns Where the code is, or that it can't be found
+ */
+export async function resolveReference(reference: CodeReference): Promise<ResolvedReference> {
+  const documents = await readDocuments([reference], (other) => !!other.anchor);
+  return findReference(reference, documents.get(reference.filePath));
+}
+
+/**
+ * A helper function which finds the code of every reference of a flow again.
+ *
+ * @remarks A node is stale when the code of its reference, or of one of the calls it stands for,
+ * can't be found. Its `properties.stale` is cleared again once the code is back.
+ *
+ * @param flow The flow as it is stored
+ * @returns A copy of the flow following the code, with what moved and what is stale
+ */
+export async function resolveFlow(flow: CapturedFlow): Promise<ResolvedFlow> {
+  const documents = await readDocuments([flow], (reference) => !!reference.anchor);
+  let movedCount = 0;
+  const staleReferences = new Set<CodeReference>();
+  const resolved = mapCodeReferences(flow, (reference) => {
+    const { status, reference: resolvedReference } = findReference(
+      reference,
+      documents.get(reference.filePath)
+    );
+    movedCount += status === "moved" ? 1 : 0;
+    if (status === "stale") {
+      staleReferences.add(resolvedReference);
+    }
+    return resolvedReference;
+  });
+
+  // A declaration that can't be found doesn't make the call stale
+  const isStale = (node: FlowNode) =>
+    [node.codeReference, ...(node.properties?.occurrences ?? [])].some(
+      (reference) => reference && staleReferences.has(reference)
+    );
+  const staleNodeIds: string[] = [];
+  const nodes = resolved.nodes.map((node) => {
+    if (isStale(node)) {
+      staleNodeIds.push(node.id);
+      return { ...node, properties: { ...node.properties, stale: true } };
+    }
+    if (node.properties?.stale) {
+      const properties = { ...node.properties };
+      delete properties.stale;
+      return { ...node, properties: Object.keys(properties).length > 0 ? properties : undefined };
+    }
+    return node;
+  });
+  return { flow: { ...resolved, nodes }, movedCount, staleNodeIds };
+}
+
+// References to the same code of the same file share their anchor
+function getReferenceKey(reference: CodeReference): string {
+  const { start, end } = reference.range;
+  return `${reference.filePath}:${start.line}:${start.character}-${end.line}:${end.character}`;
+}
+
+function findReference(
+  reference: CodeReference,
+  document: AnchorDocument | undefined
+): ResolvedReference {
+  if (!reference.anchor) {
+    return { status: "unchanged", reference };
+  }
+  if (!document) {
+    return { status: "stale", reference }; // The file was deleted or renamed
+  }
+  if (hashText(getText(document.lines, reference.range)) === reference.anchor.textHash) {
+    return { status: "unchanged", reference };
+  }
+  const range = findAnchoredRange(document, reference.range, reference.anchor);
+  if (!range) {
+    return { status: "stale", reference };
+  }
+  return {
+    status: "moved",
+    reference: { ...reference, range, anchor: createAnchor(document, range) },
+  };
+}
+
+// Where the code is now: the copy with the same lines around it if there is one, else the copy
+// closest to where the code was, looking in the symbol it was in first
+function findAnchoredRange(
+  document: AnchorDocument,
+  range: CodeRange,
+  anchor: CodeAnchor
+): CodeRange | undefined {
+  const { lines } = document;
+  const symbolRange = findSymbolRange(document.symbols, anchor.symbolPath);
+  const getDistance = (line: number) =>
+    Math.abs(line - range.start.line) +
+    (symbolRange && (line < symbolRange.start.line || line > symbolRange.end.line)
+      ? lines.length
+      : 0);
+  const startLines = lines.map((_, line) => line).sort((a, b) => getDistance(a) - getDistance(b));
+
+  let closest: CodeRange | undefined;
+  for (const startLine of startLines) {
+    for (const candidate of getCandidateRanges(lines, range, startLine)) {
+      if (hashText(getText(lines, candidate)) !== anchor.textHash) {
+        continue;
+      }
+      if (hashText(getContext(lines, candidate)) === anchor.contextHash) {
+        return candidate;
+      }
+      closest = closest ?? candidate;
+    }
+  }
+  return closest;
+}
+
+// The ranges starting at a line that span as many lines as the original one: at the same column,
+// and at the line's indentation for code that was indented differently
+function getCandidateRanges(lines: string[], range: CodeRange, startLine: number): CodeRange[] {
+  const endLine = startLine + range.end.line - range.start.line;
+  if (endLine >= lines.length) {
+    return [];
+  }
+  const indentation = lines[startLine].search(/\S/);
+  const columns = new Set([range.start.character, ...(indentation >= 0 ? [indentation] : [])]);
+  return [...columns]
+    .map((character) => {
+      const shift = character - range.start.character;
+      return {
+        start: { line: startLine, character },
+        // The last line of a multi-line range is re-indented like the first one
+        end: { line: endLine, character: range.end.character + shift },
+      };
+    })
+    .filter(
+      (candidate) =>
+        candidate.start.character <= lines[startLine].length &&
+        candidate.end.character >= 0 &&
+        candidate.end.character <= lines[endLine].length
+    );
+}
+
+function createAnchor(document: AnchorDocument, range: CodeRange): CodeAnchor {
+  return {
+    symbolPath: getSymbolPath(document.symbols, range),
+    textHash: hashText(getText(document.lines, range)),
+    contextHash: hashText(getContext(document.lines, range)),
+  };
+}
+
+// Whitespace is left out, so reformatting or re-indenting the code doesn't lose it
+function hashText(text: string | undefined): string {
+  return createHash("sha1")
+    .update((text ?? "").replace(/\s+/g, ""))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function getText(lines: string[], range: CodeRange): string | undefined {
+  const { start, end } = range;
+  if (end.line >= lines.length) {
+    return undefined; // The file got shorter
+  }
+  if (start.line === end.line) {
+    return lines[start.line].slice(start.character, end.character);
+  }
+  return [
+    lines[start.line].slice(start.character),
+    ...lines.slice(start.line + 1, end.line),
+    lines[end.line].slice(0, end.character),
+  ].join("\n");
+}
+
+// The code around a range: the lines above and below, and the rest of its first and last lines
+function getContext(lines: string[], range: CodeRange): string {
+  const { start, end } = range;
+  return [
+    ...lines.slice(Math.max(0, start.line - CONTEXT_LINES), start.line),
+    (lines[start.line] ?? "").slice(0, start.character),
+    (lines[end.line] ?? "").slice(end.character),
+    ...lines.slice(end.line + 1, end.line + 1 + CONTEXT_LINES),
+  ].join("\n");
+}
+
+// Names of the symbols containing a range, outermost first
+function getSymbolPath(
+  symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[],
+  range: CodeRange
+): string[] {
+  const symbolPath: string[] = [];
+  let level = symbols;
+  for (;;) {
+    const symbol = level.find((candidate) => containsRange(getSymbolRange(candidate), range));
+    if (!symbol) {
+      return symbolPath;
+    }
+    symbolPath.push(symbol.name);
+    level = "children" in symbol ? symbol.children : [];
+  }
+}
+
+// Where the innermost symbol of a path that still exists is now
+function findSymbolRange(
+  symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[],
+  symbolPath: string[]
+): vscode.Range | undefined {
+  let range: vscode.Range | undefined;
+  let level = symbols;
+  for (const name of symbolPath) {
+    const symbol = level.find((candidate) => candidate.name === name);
+    if (!symbol) {
+      break; // Renamed or removed, the code is looked for in the outer symbol
+    }
+    range = getSymbolRange(symbol);
+    level = "children" in symbol ? symbol.children : [];
+  }
+  return range;
+}
+
+// Document symbols come as a tree (DocumentSymbol) or a flat list (SymbolInformation)
+function getSymbolRange(symbol: vscode.DocumentSymbol | vscode.SymbolInformation): vscode.Range {
+  return "location" in symbol ? symbol.location.range : symbol.range;
+}
+
+function containsRange(outer: vscode.Range, inner: CodeRange): boolean {
+  const isBefore = (a: CodeRange["start"], b: CodeRange["start"]) =>
+    a.line < b.line || (a.line === b.line && a.character <= b.character);
+  return isBefore(outer.start, inner.start) && isBefore(inner.end, outer.end);
+}
+
+async function readDocuments(
+  values: object[],
+  needsDocument: (reference: CodeReference) => boolean
+): Promise<Map<string, AnchorDocument>> {
+  const filePaths = new Set<string>();
+  values.forEach((value) =>
+    mapCodeReferences(value, (reference) => {
+      if (needsDocument(reference)) {
+        filePaths.add(reference.filePath);
+      }
+      return reference;
+    })
+  );
+  const documents = new Map<string, AnchorDocument>();
+  for (const filePath of filePaths) {
+    const uri = toDocumentUri(filePath);
+    try {
+      const document = await vscode.workspace.openTextDocument(uri);
+      documents.set(filePath, {
+        lines: document.getText().split(/\r?\n/),
+        symbols: await getDocumentSymbols(uri),
+      });
+    } catch (error) {
+      Logger.error(`Code anchors: Could not read ${filePath}`, error);
+    }
+  }
+  return documents;
+}
+
+async function getDocumentSymbols(
+  uri: vscode.Uri
+): Promise<(vscode.DocumentSymbol | vscode.SymbolInformation)[]> {
+  try {
+    return (
+      (await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+        "vscode.executeDocumentSymbolProvider",
+        uri
+      )) || []
+    );
+  } catch (error) {
+    Logger.error(`Code anchors: No document symbols for ${uri.toString()}`, error);
+    return []; // The whole file is searched
+  }
+}
@@ -0,0 +1,433 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ts } from "ts-morph";
+import { Logger } from "./logger";
+import { matchesGlob } from "./globMatcher";
+import { toDocumentPath } from "./documentPaths";
+
+const SOURCE_FILES_GLOB = "**/*.{ts,tsx,js,jsx}";
+const YIELD_EVERY_FILES = 25; // Give the extension host a break while building
+
+export interface IndexedSymbol {
+  name: string;
+  qualifiedName: string; // e.g. FlowStorageService.getAllFlows, like capture node labels
+  kind: "function" | "method" | "class" | "interface";
+  filePath: string;
+  line: number; // 0-indexed
+}
+
+export interface IndexedCall {
+  callee: string; // The called name, without its object (`getAllFlows` for `this.x.getAllFlows()`)
+  isMethodCall: boolean;
+  // A function passed by name rather than called, e.g. `.then(this.handle)` or `onClick={save}`,
+  // which may be called from there
+  isReference?: boolean;
+  // Qualified name of the function making the call (FlowStorageService.getAllFlows, like capture
+  // node labels), undefined at the top level
+  caller?: string;
+  filePath: string;
+  line: number; // 0-indexed
+}
+
+interface FileIndex {
+  version: number; // Changes whenever the file is indexed again
+  symbols: IndexedSymbol[];
+  calls: IndexedCall[];
+  heritage: { name: string; bases: string[] }[]; // Classes/interfaces and what they extend
+}
+
+/**
+ * Keeps a symbol table and a name-based call graph of every source file in the workspace, built
+ * in the background and updated as files are saved, created or deleted. Files are parsed
+ * syntactically only, so the index stays cheap on large repositories. Captures use it to know
+ * which files are worth loading into a full ts-morph project, and which of the loaded ones
+ * changed since they were parsed; call path searches use the call graph to skip functions that
+ * can't lead to the end pin.
+ */
+export class CodeIndexService implements vscode.Disposable {
+  private files = new Map<string, FileIndex>();
+  private ready = false; // True once a full build completed
+  private generation = 0; // Bumped by every rebuild, so a cancelled build stops writing
+  private nextVersion = 0;
+  private staleFiles = new Set<string>(); // Changed on disk, not indexed again yet
+  private buildCancellation: vscode.CancellationTokenSource | undefined;
+  private statusBarItem: vscode.StatusBarItem;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
+    const watcher = vscode.workspace.createFileSystemWatcher(SOURCE_FILES_GLOB);
+    watcher.onDidChange((uri) => this.updateFile(uri));
+    watcher.onDidCreate((uri) => this.updateFile(uri));
+    watcher.onDidDelete((uri) => {
+      this.files.delete(toDocumentPath(uri));
+      this.staleFiles.delete(toDocumentPath(uri));
+      this.updateStatus();
+    });
+    this.disposables.push(watcher, this.statusBarItem);
+  }
+
+  public isReady(): boolean {
+    return this.ready;
+  }
+
+  /** Builds the index from scratch, cancelling a build that is still running. */
+  public async rebuild(): Promise<void> {
+    this.cancel();
+    const generation = ++this.generation;
+    this.staleFiles.clear();
+    if (!vscode.workspace.getConfiguration("flowMaster.index").get<boolean>("enabled", true)) {
+      this.ready = false;
+      this.files.clear();
+      this.statusBarItem.hide();
+      return;
+    }
+
+    const cancellation = new vscode.CancellationTokenSource();
+    this.buildCancellation = cancellation;
+    this.ready = false;
+    this.files.clear();
+    const startTime = Date.now();
+    try {
+      const uris = (
+        await vscode.workspace.findFiles(
+          SOURCE_FILES_GLOB,
+          "**/node_modules/**",
+          undefined,
+          cancellation.token
+        )
+      ).filter((uri) => this.isIndexable(uri));
+      for (let i = 0; i < uris.length; i++) {
+        if (cancellation.token.isCancellationRequested) {
+          return;
+        }
+        await this.indexFile(uris[i], generation);
+        if (i % YIELD_EVERY_FILES === 0) {
+          this.showProgress(i, uris.length);
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+      }
+      if (!cancellation.token.isCancellationRequested) {
+        this.ready = true;
+        Logger.log(`CodeIndex: Indexed ${uris.length} files in ${Date.now() - startTime} ms.`);
+      }
+    } catch (error) {
+      Logger.error("CodeIndex: Building the index failed.", error);
+    } finally {
+      if (this.buildCancellation === cancellation) {
+        this.buildCancellation = undefined;
+        this.updateStatus();
+      }
+      cancellation.dispose();
+    }
+  }
+
+  /** Stops a running build. Captures fall back to loading workspace files themselves. */
+  public cancel(): void {
+    if (this.buildCancellation) {
+      Logger.log("CodeIndex: Indexing cancelled.");
+      this.buildCancellation.cancel();
+      this.buildCancellation = undefined;
+      this.updateStatus();
+    }
+  }
+
+  /** Functions, methods, classes and interfaces declared with this name or qualified name. */
+  public findSymbols(name: string): IndexedSymbol[] {
+    const symbols: IndexedSymbol[] = [];
+    this.files.forEach((file) =>
+      symbols.push(
+        ...file.symbols.filter((symbol) => symbol.name === name || symbol.qualifiedName === name)
+      )
+    );
+    return symbols;
+  }
+
+  /**
+   * The version of a file as it was last indexed, undefined while it changed since or isn't
+   * indexed. A file parsed at the same version hasn't changed on disk.
+   */
+  public getFileVersion(filePath: string): number | undefined {
+    const normalizedPath = path.normalize(filePath);
+    return this.ready && !this.staleFiles.has(normalizedPath)
+      ? this.files.get(normalizedPath)?.version
+      : undefined;
+  }
+
+  /** Calls to a function or method with this name, matched by name only. */
+  public getCallers(name: string): IndexedCall[] {
+    return this.findCalls(name).filter((call) => !call.isReference);
+  }
+
+  /**
+   * Names of the functions that may lead to a call to `name`: its callers, their callers and so
+   * on, matched by name. Listeners aren't known to the index, so the functions making a call
+   * that passes `isDispatch`, e.g. emitting an event, are taken to lead anywhere. Undefined
+   * while some calls aren't known, i.e. the index isn't built or files changed since.
+   */
+  public getFunctionsReaching(
+    name: string,
+    isDispatch: (callee: string) => boolean
+  ): Set<string> | undefined {
+    if (!this.ready || this.staleFiles.size > 0) {
+      return undefined;
+    }
+    const reaching = new Set<string>();
+    const pending = [name.split(".").pop() || name];
+    this.files.forEach((file) =>
+      file.calls
+        .filter((call) => call.caller && isDispatch(call.callee))
+        .forEach((call) => pending.push(call.caller as string))
+    );
+    while (pending.length > 0) {
+      const calleeName = (pending.pop() as string).split(".").pop() as string;
+      if (reaching.has(calleeName)) {
+        continue;
+      }
+      reaching.add(calleeName);
+      this.findCalls(calleeName).forEach((call) => call.caller && pending.push(call.caller));
+    }
+    return reaching;
+  }
+
+  // Calls and references to a function or method, by its name or qualified name
+  private findCalls(name: string): IndexedCall[] {
+    const calleeName = name.split(".").pop() || name; // `Class.method` is called as `x.method()`
+    const calls: IndexedCall[] = [];
+    this.files.forEach((file) =>
+      calls.push(...file.calls.filter((call) => call.callee === calleeName))
+    );
+    return calls;
+  }
+
+  /** Files calling a method (`x.method()`) whose name passes the test. */
+  public getFilesCallingMethod(test: (method: string) => boolean): string[] {
+    return [...this.files.entries()]
+      .filter(([, file]) =>
+        file.calls.some((call) => call.isMethodCall && !call.isReference && test(call.callee))
+      )
+      .map(([filePath]) => filePath);
+  }
+
+  /** Files declaring classes or interfaces that extend or implement the type, directly or not. */
+  public getFilesExtending(typeName: string): string[] {
+    const filePaths = new Set<string>();
+    const pending = [typeName];
+    const seen = new Set(pending);
+    while (pending.length > 0) {
+      const baseName = pending.pop() as string;
+      this.files.forEach((file, filePath) =>
+        file.heritage
+          .filter((type) => type.bases.includes(baseName))
+          .forEach((type) => {
+            filePaths.add(filePath);
+            if (!seen.has(type.name)) {
+              seen.add(type.name);
+              pending.push(type.name);
+            }
+          })
+      );
+    }
+    return [...filePaths];
+  }
+
+  public dispose(): void {
+    this.cancel();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private async updateFile(uri: vscode.Uri): Promise<void> {
+    if (!this.ready && !this.buildCancellation) {
+      return; // Not indexing: nothing to keep up to date
+    }
+    // Captures re-read the file until it is indexed again
+    this.staleFiles.add(toDocumentPath(uri));
+    if (this.isIndexable(uri)) {
+      await this.indexFile(uri, this.generation);
+      this.updateStatus();
+    }
+  }
+
+  private isIndexable(uri: vscode.Uri): boolean {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!workspaceFolder) {
+      return false;
+    }
+    const excludePaths = vscode.workspace
+      .getConfiguration("flowMaster.capture")
+      .get<string[]>("excludePaths", []);
+    const relativePath = path.posix.relative(workspaceFolder.uri.path, uri.path);
+    return !matchesGlob(relativePath, excludePaths);
+  }
+
+  // Writes nothing once a rebuild started after `generation`, which cleared the files already
+  private async indexFile(uri: vscode.Uri, generation: number): Promise<void> {
+    const filePath = toDocumentPath(uri);
+    try {
+      const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+      if (generation === this.generation) {
+        this.files.set(filePath, this.parseFile(filePath, content));
+        this.staleFiles.delete(filePath);
+      }
+    } catch (error) {
+      if (generation === this.generation) {
+        this.files.delete(filePath); // Deleted or unreadable since it was found
+        this.staleFiles.delete(filePath);
+      }
+      Logger.error(`CodeIndex: Could not index ${filePath}`, error);
+    }
+  }
+
+  private parseFile(filePath: string, content: string): FileIndex {
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, false);
+    const fileIndex: FileIndex = {
+      version: ++this.nextVersion,
+      symbols: [],
+      calls: [],
+      heritage: [],
+    };
+    const lineOf = (node: ts.Node) =>
+      sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+    const nameOf = (expression: ts.Node) =>
+      ts.isPropertyAccessExpression(expression)
+        ? expression.name.text
+        : ts.isIdentifier(expression)
+        ? expression.text
+        : undefined;
+    const isFunctionValue = (initializer: ts.Node | undefined) =>
+      !!initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+    const addCall = (
+      expression: ts.Node,
+      caller: string | undefined,
+      node: ts.Node,
+      isReference?: boolean
+    ) => {
+      const calleeName = nameOf(expression);
+      if (calleeName) {
+        fileIndex.calls.push({
+          callee: calleeName,
+          isMethodCall: ts.isPropertyAccessExpression(expression),
+          isReference,
+          caller,
+          filePath,
+          line: lineOf(node),
+        });
+      }
+    };
+
+    const visit = (node: ts.Node, caller: string | undefined, container: string | undefined) => {
+      let symbol: IndexedSymbol | undefined;
+      if (ts.isFunctionDeclaration(node) && node.name) {
+        symbol = this.createSymbol(node.name.text, undefined, "function", filePath, lineOf(node));
+      } else if (
+        (ts.isMethodDeclaration(node) || ts.isMethodSignature(node)) &&
+        ts.isIdentifier(node.name)
+      ) {
+        symbol = this.createSymbol(node.name.text, container, "method", filePath, lineOf(node));
+      } else if (
+        ts.isPropertyDeclaration(node) &&
+        ts.isIdentifier(node.name) &&
+        isFunctionValue(node.initializer)
+      ) {
+        // Arrow function properties, e.g. `private handle = () => {...}`
+        symbol = this.createSymbol(node.name.text, container, "method", filePath, lineOf(node));
+      } else if (
+        (ts.isVariableDeclaration(node) || ts.isPropertyAssignment(node)) &&
+        ts.isIdentifier(node.name) &&
+        isFunctionValue(node.initializer)
+      ) {
+        symbol = this.createSymbol(node.name.text, undefined, "function", filePath, lineOf(node));
+      } else if ((ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)) && node.name) {
+        const name = node.name.text;
+        fileIndex.symbols.push(
+          this.createSymbol(
+            name,
+            undefined,
+            ts.isClassDeclaration(node) ? "class" : "interface",
+            filePath,
+            lineOf(node)
+          )
+        );
+        fileIndex.heritage.push({
+          name,
+          bases: (node.heritageClauses || []).flatMap((clause) =>
+            clause.types.map((type) => type.expression.getText(sourceFile).split(".").pop() || "")
+          ),
+        });
+        ts.forEachChild(node, (child) => visit(child, caller, name));
+        return;
+      } else if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+        const callee = node.expression;
+        addCall(callee, caller, node);
+        // `handler.call(this)` and the like call the handler itself
+        if (
+          ts.isPropertyAccessExpression(callee) &&
+          ["call", "apply", "bind"].includes(callee.name.text)
+        ) {
+          addCall(callee.expression, caller, node);
+        }
+        (node.arguments || [])
+          .filter(
+            (argument) => ts.isIdentifier(argument) || ts.isPropertyAccessExpression(argument)
+          )
+          .forEach((argument) => addCall(argument, caller, argument, true));
+      } else if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        addCall(node.tagName, caller, node); // Rendering a component calls it
+      } else if (
+        ts.isJsxExpression(node) &&
+        ts.isJsxAttribute(node.parent) &&
+        node.expression &&
+        (ts.isIdentifier(node.expression) || ts.isPropertyAccessExpression(node.expression))
+      ) {
+        addCall(node.expression, caller, node, true); // e.g. `onClick={save}`
+      }
+      if (symbol) {
+        fileIndex.symbols.push(symbol);
+      }
+      ts.forEachChild(node, (child) =>
+        visit(child, symbol ? symbol.qualifiedName : caller, container)
+      );
+    };
+    visit(sourceFile, undefined, undefined);
+    return fileIndex;
+  }
+
+  private createSymbol(
+    name: string,
+    container: string | undefined,
+    kind: IndexedSymbol["kind"],
+    filePath: string,
+    line: number
+  ): IndexedSymbol {
+    return {
+      name,
+      qualifiedName: container ? `${container}.${name}` : name,
+      kind,
+      filePath,
+      line,
+    };
+  }
+
+  private showProgress(indexed: number, total: number): void {
+    this.statusBarItem.text = `$(sync~spin) Flow Master: Indexing ${indexed}/${total}`;
+    this.statusBarItem.tooltip = "Flow Master is indexing the workspace. Click to cancel.";
+    this.statusBarItem.command = "flowMaster.cancelIndexing";
+    this.statusBarItem.show();
+  }
+
+  private updateStatus(): void {
+    if (this.buildCancellation) {
+      return; // The build reports its own progress
+    }
+    if (this.ready) {
+      this.statusBarItem.text = `$(database) Flow Master: ${this.files.size} files indexed`;
+      this.statusBarItem.tooltip = "Flow Master code index is up to date. Click to rebuild it.";
+    } else {
+      this.statusBarItem.text = "$(circle-slash) Flow Master: Not indexed";
+      this.statusBarItem.tooltip =
+        "Indexing was cancelled, captures load workspace files themselves. Click to index.";
+    }
+    this.statusBarItem.command = "flowMaster.rebuildIndex";
+    this.statusBarItem.show();
+  }
+}
@@ -0,0 +1,26 @@
+import { Uri } from "vscode";
+
+/**
+ * A helper function which turns a document URI into the path stored in pins and code references.
+ *
+ * @remarks Documents on disk use their file system path, so existing flows keep working.
+ * Untitled documents and documents of virtual or remote workspaces have no such path and
+ * keep their full URI instead.
+ *
+ * @param uri The URI of a text document
+ * @returns The file system path for `file:` URIs, the URI as a string otherwise
+ */
+export function toDocumentPath(uri: Uri): string {
+  return uri.scheme === "file" ? uri.fsPath : uri.toString();
+}
+
+/**
+ * A helper function which turns a path created by `toDocumentPath` back into a URI.
+ *
+ * @param documentPath A file system path or a URI string
+ * @returns The URI of the document
+ */
+export function toDocumentUri(documentPath: string): Uri {
+  // A scheme has at least two characters, which tells it apart from a Windows drive letter
+  return /^[a-zA-Z][\w+.-]+:/.test(documentPath) ? Uri.parse(documentPath) : Uri.file(documentPath);
+}
@@ -0,0 +1,233 @@
+import { basename } from "path";
+import { CapturedFlow, ProjectFlows } from "../types/flowTypes";
+import {
+  FLOW_FILE_VERSION,
+  canUpgrade,
+  compareVersions,
+  toProjectFlows,
+  upgradeProjectFlows,
+} from "./flowMigrations";
+
+/** A flows file that can't be read, with where the problem is in it. */
+export class FlowsFileError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly line: number = 0, // Zero-based, like vscode.Position
+    public readonly character: number = 0
+  ) {
+    super(message);
+    this.name = "FlowsFileError";
+  }
+}
+
+/** A flows file saved by a newer version of the extension, which this version must not write. */
+export class NewerFlowsFileError extends Error {
+  constructor(public readonly filePath: string, public readonly version: string) {
+    super(
+      `${basename(
+        filePath
+      )} was saved by a newer version (${version}) of Flow Master. Update the extension to change its flows.`
+    );
+    this.name = "NewerFlowsFileError";
+  }
+}
+
+// Lines git leaves in a file when a merge conflict isn't resolved
+const CONFLICT_MARKER = /^(<{7}|\|{7}|={7}|>{7})/m;
+
+/**
+ * A helper function which strictly parses the text of a flows file.
+ *
+ * @remarks Unlike a failed read returning no flows, which the next save would write back over
+ * every flow in the file, a file that fails here is left alone until it is repaired.
+ *
+ * @param text The contents of the file
+ * @param filePath The file, for the error
+ * @returns The flows of the file, at the version they were saved with
+ * @throws A {@link FlowsFileError} if the file isn't valid JSON or isn't shaped like a flows file
+ */
+export function parseFlowsFile(text: string, filePath: string): ProjectFlows {
+  const conflict = CONFLICT_MARKER.exec(text);
+  if (conflict) {
+    throw new FlowsFileError(
+      "Unresolved merge conflict",
+      filePath,
+      ...getPosition(text, conflict.index)
+    );
+  }
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error: any) {
+    throw new FlowsFileError(
+      error.message.replace(/ in JSON at position \d+.*$/, ""),
+      filePath,
+      ...getPosition(text, getErrorOffset(text, error.message))
+    );
+  }
+  const projectFlows = toProjectFlows(data);
+  if (!projectFlows) {
+    throw new FlowsFileError("Not a flows file, expected a version and a flows array", filePath);
+  }
+  if (!canUpgrade(projectFlows.version)) {
+    throw new FlowsFileError(
+      `Unknown version ${projectFlows.version}, expected ${FLOW_FILE_VERSION} or older`,
+      filePath,
+      ...getPosition(text, Math.max(0, text.indexOf('"version"')))
+    );
+  }
+  projectFlows.flows.forEach((flow, index) => {
+    const problem = findFlowProblem(flow);
+    if (problem) {
+      throw new FlowsFileError(
+        `Flow ${index + 1}: ${problem}`,
+        filePath,
+        ...getPosition(text, findFlowOffset(text, flow))
+      );
+    }
+  });
+  return projectFlows;
+}
+
+/**
+ * A helper function which recovers the flows that can still be read from a damaged flows file.
+ *
+ * @remarks Both sides of an unresolved merge conflict are read. A flow found more than once, e.g.
+ * edited on both branches, is kept in its most recently updated version.
+ *
+ * @param text The contents of the file
+ * @returns The flows that are complete and valid, upgraded to the current version
+ * @throws If the file was saved by a newer version of the extension
+ */
+export function salvageFlows(text: string): CapturedFlow[] {
+  // Files without a version hold a bare flow, saved one per file before versions were added
+  const version = /"version"\s*:\s*"([\d.]+)"/.exec(text)?.[1] ?? "1.0";
+  if (compareVersions(version, FLOW_FILE_VERSION) > 0) {
+    throw new Error(`The file was saved by a newer version (${version}) of Flow Master.`);
+  }
+  const texts = CONFLICT_MARKER.test(text)
+    ? [resolveConflicts(text, "ours"), resolveConflicts(text, "theirs")]
+    : [text];
+  const flowsById = new Map<string, CapturedFlow>();
+  for (const flow of texts.flatMap(findFlowObjects)) {
+    const found = flowsById.get(flow.id);
+    if (!found || (flow.updatedAt || "") > (found.updatedAt || "")) {
+      flowsById.set(flow.id, flow);
+    }
+  }
+  return upgradeProjectFlows({ version, flows: [...flowsById.values()] }).flows;
+}
+
+// What the extension relies on when it reads a flow, or undefined if it's usable
+function findFlowProblem(flow: any): string | undefined {
+  if (!flow || typeof flow !== "object") {
+    return "not an object";
+  }
+  if (typeof flow.id !== "string" || !flow.id) {
+    return "missing id";
+  }
+  if (typeof flow.name !== "string") {
+    return "missing name";
+  }
+  if (!Array.isArray(flow.nodes) || !Array.isArray(flow.edges)) {
+    return "missing nodes or edges";
+  }
+  if (flow.nodes.some((node: any) => typeof node?.id !== "string")) {
+    return "a node has no id";
+  }
+  if (
+    flow.edges.some((edge: any) => typeof edge?.from !== "string" || typeof edge?.to !== "string")
+  ) {
+    return "an edge has no from or to";
+  }
+  return undefined;
+}
+
+// Keeps one side of every merge conflict, dropping the markers (and the base of diff3 conflicts)
+function resolveConflicts(text: string, side: "ours" | "theirs"): string {
+  let section: "both" | "ours" | "base" | "theirs" = "both";
+  const kept: string[] = [];
+  for (const line of text.split("\n")) {
+    if (line.startsWith("<<<<<<<")) {
+      section = "ours";
+    } else if (line.startsWith("|||||||")) {
+      section = "base";
+    } else if (line.startsWith("=======")) {
+      section = "theirs";
+    } else if (line.startsWith(">>>>>>>")) {
+      section = "both";
+    } else if (section === "both" || section === side) {
+      kept.push(line);
+    }
+  }
+  return kept.join("\n");
+}
+
+// Every object in the text that parses as a valid flow, outermost first
+function findFlowObjects(text: string): CapturedFlow[] {
+  // Pair up the braces outside of strings; in a damaged file some stay unpaired
+  const openings: number[] = [];
+  const objects: [number, number][] = [];
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      openings.push(i);
+    } else if (char === "}" && openings.length > 0) {
+      objects.push([openings.pop()!, i]);
+    }
+  }
+  objects.sort((a, b) => a[0] - b[0]);
+
+  const flows: CapturedFlow[] = [];
+  let flowEnd = -1;
+  for (const [start, end] of objects) {
+    if (start < flowEnd) {
+      continue; // Part of a flow already found
+    }
+    let candidate: any;
+    try {
+      candidate = JSON.parse(text.slice(start, end + 1));
+    } catch {
+      continue;
+    }
+    if (!findFlowProblem(candidate)) {
+      flows.push(candidate);
+      flowEnd = end;
+    }
+  }
+  return flows;
+}
+
+// Where JSON.parse stopped, from its error message
+function getErrorOffset(text: string, message: string): number {
+  const position = /at position (\d+)/.exec(message);
+  if (position) {
+    return Number(position[1]);
+  }
+  return /end of JSON input/.test(message) ? text.length : 0;
+}
+
+// Where an invalid flow starts, found by its id when it has one
+function findFlowOffset(text: string, flow: any): number {
+  if (typeof flow?.id !== "string") {
+    return 0;
+  }
+  const id = JSON.stringify(flow.id).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`"id"\\s*:\\s*${id}`).exec(text)?.index ?? 0;
+}
+
+function getPosition(text: string, offset: number): [number, number] {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length - 1;
+  return [line, offset - (before.lastIndexOf("\n") + 1)];
+}
@@ -0,0 +1,489 @@
+import { CodeReference, FlowEdge, FlowNode } from "../types/flowTypes";
+
+/**
+ * A helper function which removes the nodes hidden by `flowMaster.capture.ignore` from a flow.
+ *
+ * @remarks The control flow around a hidden node is kept by linking each of its predecessors
+ * to each of its successors. Values and errors flowing through a hidden node are dropped with it.
+ *
+ * @param nodes The nodes of a flow, some of which may have the `hidden` property
+ * @param edges The edges of the flow
+ * @returns The visible nodes and the edges between them
+ */
+export function withoutHiddenNodes(
+  nodes: FlowNode[],
+  edges: FlowEdge[]
+): { nodes: FlowNode[]; edges: FlowEdge[] } {
+  let currentEdges = edges;
+  nodes
+    .filter((node) => node.properties?.hidden)
+    .forEach((hiddenNode) => {
+      const isControl = (edge: FlowEdge) => edge.type !== "DataFlow" && edge.type !== "Error";
+      const incoming = currentEdges.filter((edge) => edge.to === hiddenNode.id);
+      const outgoing = currentEdges.filter((edge) => edge.from === hiddenNode.id);
+      const bridges: FlowEdge[] = [];
+      incoming
+        .filter((edge) => edge.type !== "DataFlow")
+        .forEach((before) => {
+          outgoing.filter(isControl).forEach((after) => {
+            if (before.from === after.to) {
+              return;
+            }
+            // The edge into the hidden node carries the branch or callback label, if any
+            const labelled = before.label || !after.label ? before : after;
+            bridges.push({
+              ...labelled,
+              id: `${before.id}-${after.id}`,
+              from: before.from,
+              to: after.to,
+            });
+          });
+        });
+      currentEdges = [
+        ...currentEdges.filter((edge) => edge.from !== hiddenNode.id && edge.to !== hiddenNode.id),
+        ...bridges.filter(
+          (bridge, index) =>
+            bridges.findIndex(
+              (other) =>
+                other.from === bridge.from &&
+                other.to === bridge.to &&
+                other.type === bridge.type &&
+                other.label === bridge.label
+            ) === index
+        ),
+      ];
+    });
+  return { nodes: nodes.filter((node) => !node.properties?.hidden), edges: currentEdges };
+}
+
+/**
+ * A helper function which keeps the part of a flow that leads from its entry to some targets.
+ *
+ * @param nodes The nodes of a flow
+ * @param edges The edges of the flow
+ * @param entryNodeId The node the flow starts from
+ * @param targetNodeIds The nodes the paths must end in
+ * @returns The nodes that are both reachable from the entry and able to reach a target, and the
+ * edges between them
+ */
+export function keepPathsToTargets(
+  nodes: FlowNode[],
+  edges: FlowEdge[],
+  entryNodeId: string,
+  targetNodeIds: string[]
+): { nodes: FlowNode[]; edges: FlowEdge[] } {
+  const collectReachable = (startIds: string[], forward: boolean): Set<string> => {
+    const reached = new Set<string>(startIds);
+    const queue = [...startIds];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      edges.forEach((edge) => {
+        const [from, to] = forward ? [edge.from, edge.to] : [edge.to, edge.from];
+        if (from === current && !reached.has(to)) {
+          reached.add(to);
+          queue.push(to);
+        }
+      });
+    }
+    return reached;
+  };
+  const fromEntry = collectReachable([entryNodeId], true);
+  const toTargets = collectReachable(targetNodeIds, false);
+  const onPath = (id: string) => fromEntry.has(id) && toTargets.has(id);
+  return {
+    nodes: nodes.filter((node) => onPath(node.id)),
+    edges: edges.filter((edge) => onPath(edge.from) && onPath(edge.to)),
+  };
+}
+
+const toPosixPath = (filePath: string) => filePath.replace(/\\/g, "/");
+
+const comparePositions = (
+  a: CodeReference["range"]["start"],
+  b: CodeReference["range"]["start"]
+): number => a.line - b.line || a.character - b.character;
+
+const contains = (outer: CodeReference, inner: CodeReference): boolean =>
+  toPosixPath(outer.filePath) === toPosixPath(inner.filePath) &&
+  comparePositions(outer.range.start, inner.range.start) <= 0 &&
+  comparePositions(inner.range.end, outer.range.end) <= 0;
+
+export type GroupingLevel = "none" | "file" | "class" | "folder";
+
+// Nodes drawn together in one Mermaid subgraph
+export interface NodeGroup {
+  key: string; // Stable across renders, used to remember which groups are collapsed
+  id: string; // Mermaid subgraph ID
+  label: string;
+  nodeIds: string[];
+}
+
+/**
+ * A helper function which groups the nodes of a flow by where their code lives.
+ *
+ * @remarks Files and folders come from each node's `codeReference.filePath` and are labelled
+ * relative to the folder all of them share. Classes come from the resolved declarations of calls
+ * to methods, e.g. a call labelled `FlowStorageService.saveFlow`, and a node belongs to the
+ * innermost such method its code lies in. Nodes without a location, or outside every known
+ * method, are left ungrouped.
+ *
+ * @param nodes The nodes of a flow
+ * @param level What to group the nodes by
+ * @returns The groups, in the order their first node appears
+ */
+export function groupNodes(nodes: FlowNode[], level: GroupingLevel): NodeGroup[] {
+  if (level === "none") {
+    return [];
+  }
+  const getFolder = (filePath: string) => filePath.substring(0, filePath.lastIndexOf("/"));
+  const filePaths = nodes
+    .filter((node) => node.codeReference)
+    .map((node) => toPosixPath(node.codeReference!.filePath));
+  let root = filePaths.length > 0 ? getFolder(filePaths[0]) : "";
+  while (root && !filePaths.every((filePath) => filePath.startsWith(`${root}/`))) {
+    root = getFolder(root);
+  }
+  const relative = (filePath: string) => filePath.substring(root ? root.length + 1 : 0) || ".";
+
+  const methods: { className: string; codeReference: CodeReference }[] = [];
+  if (level === "class") {
+    nodes.forEach((node) => {
+      const className = node.label.replace(/^await /, "").match(/^([A-Z][\w$]*)\.[\w$]+$/)?.[1];
+      const declaration = node.codeReference?.declaration;
+      if (className && declaration) {
+        methods.push({ className, codeReference: declaration });
+      }
+    });
+  }
+
+  const groups = new Map<string, NodeGroup>();
+  nodes.forEach((node) => {
+    if (!node.codeReference) {
+      return;
+    }
+    const filePath = toPosixPath(node.codeReference.filePath);
+    let key: string;
+    let label: string;
+    if (level === "file") {
+      key = filePath;
+      label = relative(filePath);
+    } else if (level === "folder") {
+      key = getFolder(filePath);
+      label = relative(key);
+    } else {
+      const enclosing = methods
+        .filter((method) => contains(method.codeReference, node.codeReference!))
+        .sort((a, b) =>
+          comparePositions(b.codeReference.range.start, a.codeReference.range.start)
+        )[0];
+      if (!enclosing) {
+        return;
+      }
+      key = `${filePath}#${enclosing.className}`;
+      label = `${enclosing.className} in ${relative(filePath)}`;
+    }
+    const group = groups.get(key) || { key, id: `group_${groups.size}`, label, nodeIds: [] };
+    group.nodeIds.push(node.id);
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * A helper function which replaces groups of nodes with one summary node each.
+ *
+ * @remarks Edges into or out of a collapsed group are re-routed to its summary node, and edges
+ * between nodes of the same group are dropped. Re-routed edges that end up linking the same
+ * nodes in the same way are kept once.
+ *
+ * @param nodes The nodes of a flow
+ * @param edges The edges of the flow
+ * @param groups The groups to collapse
+ * @returns The remaining nodes followed by the summary nodes, which have the `collapsedGroup`
+ * property set to the group's key, and the edges between them
+ */
+export function collapseGroups(
+  nodes: FlowNode[],
+  edges: FlowEdge[],
+  groups: NodeGroup[]
+): { nodes: FlowNode[]; edges: FlowEdge[] } {
+  const summaryIds = new Map<string, string>();
+  groups.forEach((group) => group.nodeIds.forEach((nodeId) => summaryIds.set(nodeId, group.id)));
+  const summaryNodes: FlowNode[] = groups.map((group) => ({
+    id: group.id,
+    label: `${group.label} · ${group.nodeIds.length} nodes`,
+    type: "Note",
+    description: `Collapsed ${group.label}`,
+    properties: { collapsedGroup: group.key },
+  }));
+  const reroutedEdges: FlowEdge[] = [];
+  edges.forEach((edge) => {
+    const from = summaryIds.get(edge.from) || edge.from;
+    const to = summaryIds.get(edge.to) || edge.to;
+    if (from === to && from !== edge.from) {
+      return; // Inside a collapsed group
+    }
+    if (from === edge.from && to === edge.to) {
+      reroutedEdges.push(edge);
+      return;
+    }
+    const isDuplicate = reroutedEdges.some(
+      (other) => other.from === from && other.to === to && other.type === edge.type
+    );
+    if (!isDuplicate) {
+      reroutedEdges.push({ ...edge, from, to });
+    }
+  });
+  return {
+    nodes: [...nodes.filter((node) => !summaryIds.has(node.id)), ...summaryNodes],
+    edges: reroutedEdges,
+  };
+}
+
+/**
+ * A helper function which merges consecutive calls to the same function into one node.
+ *
+ * @remarks Calls are consecutive when everything the first one runs, including its expansion
+ * into the callee, leads to the second one and nothing else does. The expansion of the first
+ * call is dropped and the second call's node takes its place with a `callCount` property, shown
+ * as a ×N badge. Its `occurrences` property keeps the code reference of every call in order, so
+ * a trace can step through each of them. Calls whose expansions differ, e.g. because they pass
+ * different callbacks, are left alone.
+ *
+ * @param nodes The nodes of a flow
+ * @param edges The edges of the flow
+ * @returns The nodes and edges with every run of calls merged
+ */
+export function collapseRepeatedCalls(
+  nodes: FlowNode[],
+  edges: FlowEdge[]
+): { nodes: FlowNode[]; edges: FlowEdge[] } {
+  const isControl = (edge: FlowEdge) => edge.type !== "DataFlow" && edge.type !== "Error";
+  const isForward = (edge: FlowEdge) => isControl(edge) && !edge.properties?.backEdge;
+  const getCalleeKey = (node: FlowNode) =>
+    node.type === "Function" && node.codeReference
+      ? `${node.label.replace(/^await /, "")}|${JSON.stringify(
+          node.codeReference.declaration || null
+        )}|${Boolean(node.properties?.hidden)}`
+      : undefined;
+  const getSignature = (node: FlowNode) =>
+    `${node.type}|${node.label}|${JSON.stringify(node.codeReference || null)}`;
+  const getOccurrences = (node: FlowNode): CodeReference[] =>
+    node.properties?.occurrences || [node.codeReference];
+  // Calls are only merged with calls made by the same function: the innermost function of the
+  // flow, entered or called, whose code contains them
+  const functions = nodes
+    .map((node) =>
+      node.type === "EntryPoint" ? node.codeReference : node.codeReference?.declaration
+    )
+    .filter((codeReference): codeReference is CodeReference => codeReference !== undefined);
+  const getCaller = (node: FlowNode) =>
+    JSON.stringify(
+      functions
+        .filter((declaration) => contains(declaration, node.codeReference!))
+        .sort((a, b) => comparePositions(b.range.start, a.range.start))[0] || null
+    );
+
+  let current = { nodes, edges };
+  const calleeKeys = new Map<FlowNode, string | undefined>();
+  const getCachedCalleeKey = (node: FlowNode) => {
+    if (!calleeKeys.has(node)) {
+      calleeKeys.set(node, getCalleeKey(node));
+    }
+    return calleeKeys.get(node);
+  };
+  // Most calls are made once, so the search is skipped for them
+  const callCounts = new Map<string, number>();
+  nodes.forEach((node) => {
+    const key = getCachedCalleeKey(node);
+    if (key) {
+      callCounts.set(key, (callCounts.get(key) || 0) + 1);
+    }
+  });
+
+  // Rebuilt after each merge
+  let graphIndex: ReturnType<typeof indexGraph> | undefined;
+  const indexGraph = () => {
+    const nodesById = new Map(current.nodes.map((node) => [node.id, node]));
+    const incoming = new Map<string, FlowEdge[]>();
+    const outgoing = new Map<string, FlowEdge[]>();
+    current.edges.filter(isForward).forEach((edge) => {
+      incoming.set(edge.to, [...(incoming.get(edge.to) || []), edge]);
+      outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge]);
+    });
+    return { nodesById, incoming, outgoing };
+  };
+  const getIndex = () => (graphIndex = graphIndex || indexGraph());
+
+  const findRun = (first: FlowNode): { region: Set<string>; next: FlowNode } | undefined => {
+    const key = getCachedCalleeKey(first);
+    if (!key || (callCounts.get(key) || 0) < 2) {
+      return undefined;
+    }
+    const { nodesById, incoming, outgoing } = getIndex();
+
+    // The first call and every node only reachable through it, up to the next call
+    const region = new Set([first.id]);
+    const queue = [first.id];
+    while (queue.length > 0) {
+      (outgoing.get(queue.shift()!) || []).forEach(({ to }) => {
+        const node = nodesById.get(to);
+        if (
+          node &&
+          !region.has(to) &&
+          getCachedCalleeKey(node) !== key &&
+          (incoming.get(to) || []).every((edge) => region.has(edge.from))
+        ) {
+          region.add(to);
+          queue.push(to);
+        }
+      });
+    }
+    const exits = current.edges.filter(
+      (edge) => region.has(edge.from) && !region.has(edge.to) && isControl(edge)
+    );
+    const next = exits.length > 0 ? nodesById.get(exits[0].to) : undefined;
+    if (
+      !next ||
+      getCachedCalleeKey(next) !== key ||
+      getCaller(next) !== getCaller(first) ||
+      exits.some((edge) => edge.to !== next.id || !isForward(edge)) ||
+      (incoming.get(next.id) || []).some((edge) => !region.has(edge.from))
+    ) {
+      return undefined;
+    }
+    // The second call must run the same code, found among the nodes it leads to
+    const reachable = new Set([next.id]);
+    const pending = [next.id];
+    while (pending.length > 0) {
+      (outgoing.get(pending.shift()!) || []).forEach(({ to }) => {
+        if (!reachable.has(to)) {
+          reachable.add(to);
+          pending.push(to);
+        }
+      });
+    }
+    const reachableSignatures = new Set(
+      [...reachable]
+        .map((id) => nodesById.get(id))
+        .filter((node) => node)
+        .map((node) => getSignature(node!))
+    );
+    const isRepeated = [...region].every(
+      (id) => id === first.id || reachableSignatures.has(getSignature(nodesById.get(id)!))
+    );
+    return isRepeated ? { region, next } : undefined;
+  };
+
+  for (let index = 0; index < current.nodes.length; index++) {
+    const first = current.nodes[index];
+    const run = findRun(first);
+    if (!run) {
+      continue;
+    }
+    const { region, next } = run;
+    const merged: FlowNode = {
+      ...next,
+      codeReference: first.codeReference,
+      properties: {
+        ...next.properties,
+        callCount: (first.properties?.callCount || 1) + (next.properties?.callCount || 1),
+        occurrences: [...getOccurrences(first), ...getOccurrences(next)],
+      },
+    };
+    // Edges into or out of the first call now belong to the merged node
+    const mergedEdges: FlowEdge[] = [];
+    current.edges.forEach((edge) => {
+      if (region.has(edge.from) && region.has(edge.to)) {
+        return;
+      }
+      let rerouted = edge;
+      if (edge.to === first.id) {
+        rerouted = { ...edge, to: next.id };
+      } else if (edge.from === first.id && edge.to !== next.id) {
+        rerouted = { ...edge, from: next.id };
+      } else if (region.has(edge.from) || region.has(edge.to)) {
+        return; // Part of the expansion that is dropped
+      }
+      const isDuplicate =
+        rerouted !== edge &&
+        mergedEdges.some(
+          (other) =>
+            other.from === rerouted.from &&
+            other.to === rerouted.to &&
+            other.type === rerouted.type &&
+            other.label === rerouted.label
+        );
+      if (!isDuplicate) {
+        mergedEdges.push(rerouted);
+      }
+    });
+    // The merged node takes the place of the first call, so the order of the nodes is kept
+    current = {
+      nodes: current.nodes
+        .map((node) => (node === first ? merged : node))
+        .filter((node) => node === merged || (node.id !== next.id && !region.has(node.id))),
+      edges: mergedEdges,
+    };
+    graphIndex = undefined;
+    index--; // The merged node may be followed by another call to the same function
+  }
+  return current;
+}
+
+/**
+ * A helper function which marks the nodes each loop of a flow repeats.
+ *
+ * @remarks A node is in a loop's body when it is reached by iterating the loop and leads back
+ * to it. Nodes of nested loops are marked with the innermost one.
+ *
+ * @param nodes The nodes of a flow
+ * @param edges The edges of the flow
+ * @returns The nodes, those in a loop's body with the `loop` property set to the loop node's ID
+ */
+export function markLoopBodies(nodes: FlowNode[], edges: FlowEdge[]): FlowNode[] {
+  const isControl = (edge: FlowEdge) => edge.type !== "DataFlow" && edge.type !== "Error";
+  const successors = new Map<string, FlowEdge[]>();
+  const predecessors = new Map<string, FlowEdge[]>();
+  edges.filter(isControl).forEach((edge) => {
+    successors.set(edge.from, [...(successors.get(edge.from) || []), edge]);
+    predecessors.set(edge.to, [...(predecessors.get(edge.to) || []), edge]);
+  });
+  const collect = (loopId: string, forward: boolean): Set<string> => {
+    const reached = new Set<string>();
+    const queue = [loopId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      ((forward ? successors : predecessors).get(current) || []).forEach((edge) => {
+        if (forward && edge.properties?.backEdge) {
+          return;
+        }
+        if (forward && edge.from === loopId && edge.label === "done") {
+          return; // Leaves the loop
+        }
+        const next = forward ? edge.to : edge.from;
+        if (next !== loopId && !reached.has(next)) {
+          reached.add(next);
+          queue.push(next);
+        }
+      });
+    }
+    return reached;
+  };
+  const bodies = nodes
+    .filter((node) => node.type === "Loop")
+    .map((loop) => {
+      const leadsBack = collect(loop.id, false);
+      return {
+        loopId: loop.id,
+        body: new Set([...collect(loop.id, true)].filter((id) => leadsBack.has(id))),
+      };
+    })
+    .sort((a, b) => a.body.size - b.body.size);
+  return nodes.map((node) => {
+    const innermost = bodies.find(({ body }) => body.has(node.id));
+    return innermost
+      ? { ...node, properties: { ...node.properties, loop: innermost.loopId } }
+      : node;
+  });
+}
@@ -0,0 +1,117 @@
+import { ProjectFlows } from "../types/flowTypes";
+
+// The version written to flows files. Bump it, and add a step below, whenever the stored shape
+// of a flow changes, so files saved by older versions are upgraded instead of misread.
+export const FLOW_FILE_VERSION = "1.2";
+
+// Upgrades the contents of a flows file by one version
+interface FlowFileMigration {
+  from: string;
+  to: string;
+  migrate: (projectFlows: ProjectFlows) => ProjectFlows;
+}
+
+// Applied in order, each to the output of the previous one
+const MIGRATIONS: FlowFileMigration[] = [
+  {
+    // 1.1: every flow has a category and tags, and a file per flow has the flows.json shape
+    from: "1.0",
+    to: "1.1",
+    migrate: (projectFlows) => ({
+      ...projectFlows,
+      flows: projectFlows.flows.map((flow) => ({
+        ...flow,
+        category: flow.category || "General",
+        tags: flow.tags || [],
+        updatedAt: flow.updatedAt || flow.createdAt,
+      })),
+    }),
+  },
+  {
+    // 1.2: code references are relative to the workspace folder. The absolute paths of older
+    // files are made relative by FlowPaths when the upgraded file is written.
+    from: "1.1",
+    to: "1.2",
+    migrate: (projectFlows) => projectFlows,
+  },
+];
+
+/**
+ * A helper function which compares two dotted version numbers.
+ *
+ * @returns A negative number when `a` is older than `b`, a positive number when it is newer and
+ * 0 when they are the same version
+ */
+export function compareVersions(a: string, b: string): number {
+  const aParts = a.split(".").map(Number);
+  const bParts = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const difference = (aParts[i] || 0) - (bParts[i] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * A helper function which reads the parsed contents of a flows file.
+ *
+ * @remarks Files holding a bare flow, as written one per flow before version 1.1, are read as
+ * version 1.0 files holding that flow.
+ *
+ * @param data The parsed JSON of a flows file
+ * @returns The flows of the file, or undefined if it isn't a flows file
+ */
+export function toProjectFlows(data: any): ProjectFlows | undefined {
+  if (data && typeof data.id === "string" && Array.isArray(data.nodes)) {
+    return { version: "1.0", flows: [data] };
+  }
+  if (!data || typeof data.version !== "string" || !Array.isArray(data.flows)) {
+    return undefined;
+  }
+  return data;
+}
+
+/**
+ * A helper function which tells whether {@link upgradeProjectFlows} can upgrade a version.
+ *
+ * @remarks Newer versions are readable as they are, so only older versions without a chain of
+ * migration steps up to {@link FLOW_FILE_VERSION}, e.g. a mistyped version, are rejected.
+ *
+ * @param version The version a flows file was saved with
+ * @returns True when files of this version can be read
+ */
+export function canUpgrade(version: string): boolean {
+  let current = version;
+  while (compareVersions(current, FLOW_FILE_VERSION) < 0) {
+    const step = MIGRATIONS.find((migration) => migration.from === current);
+    if (!step) {
+      return false;
+    }
+    current = step.to;
+  }
+  return true;
+}
+
+/**
+ * A helper function which upgrades the contents of a flows file to {@link FLOW_FILE_VERSION}.
+ *
+ * @remarks Files from a newer version of the extension are returned as they are: they can be
+ * read, as far as this version understands them, but must not be written.
+ *
+ * @param projectFlows The contents of a flows file
+ * @returns The upgraded contents
+ * @throws If no migration step upgrades the file's version
+ */
+export function upgradeProjectFlows(projectFlows: ProjectFlows): ProjectFlows {
+  let upgraded = projectFlows;
+  while (compareVersions(upgraded.version, FLOW_FILE_VERSION) < 0) {
+    const step = MIGRATIONS.find((migration) => migration.from === upgraded.version);
+    if (!step) {
+      throw new Error(`No migration from flows file version ${upgraded.version}.`);
+    }
+    upgraded = { ...step.migrate(upgraded), version: step.to };
+  }
+  return upgraded;
+}
@@ -0,0 +1,139 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { CapturedFlow, CodeReference } from "../types/flowTypes";
+
+// Stored paths of files in another folder of a multi-root workspace, e.g. `${workspaceFolder:api}/src/x.ts`
+const OTHER_FOLDER_PATH = /^\$\{workspaceFolder:([^}]+)\}\/(.*)$/;
+
+/**
+ * Converts the paths of the code references of flows between the absolute paths the extension
+ * works with and the paths stored in a workspace folder's flows file, which are relative to the
+ * folder so the flows work on every teammate's machine.
+ */
+export class FlowPaths {
+  // Where the absolute paths of flows captured on other machines had the workspace folder
+  private foreignRoots: string[] = [];
+
+  constructor(public readonly folder: vscode.WorkspaceFolder) {}
+
+  /** The flow as it is stored: paths relative to the workspace folder, with forward slashes. */
+  public toStoredFlow(flow: CapturedFlow): CapturedFlow {
+    return mapFilePaths(flow, (filePath) => this.toStoredPath(filePath));
+  }
+
+  /**
+   * The flows as they are used: absolute paths. Absolute paths of a file saved by an older
+   * version on another machine are moved to this workspace folder when the file exists in it.
+   */
+  public async resolveFlows(flows: CapturedFlow[]): Promise<CapturedFlow[]> {
+    // Each path is resolved once, finding a moved one touches the disk
+    const resolved = new Map<string, string>();
+    for (const flow of flows) {
+      mapFilePaths(flow, (filePath) => {
+        resolved.set(filePath, filePath);
+        return filePath;
+      });
+    }
+    for (const filePath of resolved.keys()) {
+      resolved.set(filePath, await this.resolvePath(filePath));
+    }
+    return flows.map((flow) => mapFilePaths(flow, (filePath) => resolved.get(filePath)!));
+  }
+
+  private toStoredPath(filePath: string): string {
+    if (!isAbsolutePath(filePath)) {
+      return filePath; // Already stored, a URI or a folder that isn't open
+    }
+    const owner = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    if (!owner) {
+      return filePath; // Outside the workspace, e.g. a global library
+    }
+    const relativePath = path.relative(owner.uri.fsPath, filePath).split(path.sep).join("/");
+    return owner.uri.toString() === this.folder.uri.toString()
+      ? relativePath
+      : `\${workspaceFolder:${owner.name}}/${relativePath}`;
+  }
+
+  private async resolvePath(filePath: string): Promise<string> {
+    const otherFolder = OTHER_FOLDER_PATH.exec(filePath);
+    if (otherFolder) {
+      const folder = vscode.workspace.workspaceFolders?.find((f) => f.name === otherFolder[1]);
+      // Kept as it is when the folder isn't open, so saving the flow doesn't lose it
+      return folder ? path.join(folder.uri.fsPath, otherFolder[2]) : filePath;
+    }
+    if (/^[a-zA-Z][\w+.-]+:/.test(filePath)) {
+      return filePath; // A URI, see toDocumentPath
+    }
+    if (!isAbsolutePath(filePath)) {
+      return path.join(this.folder.uri.fsPath, filePath);
+    }
+    if (vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))) {
+      return filePath;
+    }
+    return (await this.findInFolder(filePath)) ?? filePath;
+  }
+
+  // `/home/alice/repo/src/x.ts` is `src/x.ts` of this folder when that file exists, and the other
+  // paths under `/home/alice/repo` are then moved the same way
+  private async findInFolder(filePath: string): Promise<string | undefined> {
+    const segments = filePath.split(/[\\/]/);
+    const knownRoot = this.foreignRoots.find((root) => filePath.startsWith(root));
+    if (knownRoot) {
+      return path.join(this.folder.uri.fsPath, ...filePath.slice(knownRoot.length).split(/[\\/]/));
+    }
+    // The longest part of the path found in the folder, so `src/x.ts` wins over `x.ts`
+    for (let i = 1; i < segments.length; i++) {
+      const localPath = path.join(this.folder.uri.fsPath, ...segments.slice(i));
+      try {
+        await vscode.workspace.fs.stat(vscode.Uri.file(localPath));
+      } catch {
+        continue;
+      }
+      this.foreignRoots.push(
+        filePath.slice(0, filePath.length - segments.slice(i).join("/").length)
+      );
+      return localPath;
+    }
+    return undefined;
+  }
+}
+
+// Absolute on this machine or on a teammate's, whatever its operating system
+function isAbsolutePath(filePath: string): boolean {
+  return path.posix.isAbsolute(filePath) || path.win32.isAbsolute(filePath);
+}
+
+// Copies a flow, changing the path of each of its code references
+function mapFilePaths<T>(value: T, map: (filePath: string) => string): T {
+  return mapCodeReferences(value, (reference) => ({
+    ...reference,
+    filePath: map(reference.filePath),
+  }));
+}
+
+/**
+ * A helper function which copies a flow, or any part of one, changing each of its code references.
+ *
+ * @remarks Includes the references kept in node properties, such as the occurrences of collapsed
+ * calls, and the declarations of calls, which are mapped before the reference holding them.
+ *
+ * @param value The flow, node or reference
+ * @param map Returns the new version of a reference
+ * @returns The copy
+ */
+export function mapCodeReferences<T>(
+  value: T,
+  map: (reference: CodeReference) => CodeReference
+): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => mapCodeReferences(item, map)) as T;
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  const copy: any = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = mapCodeReferences(item, map);
+  }
+  return typeof copy.filePath === "string" && copy.range ? map(copy) : copy;
+}
@@ -0,0 +1,76 @@
+/**
+ * A helper function that converts a glob pattern into a regular expression.
+ *
+ * @remarks Supports `**`, `*`, `?` and `{a,b}` alternatives, which covers the
+ * patterns used in Flow Master settings. Paths are expected to use forward slashes.
+ *
+ * @param pattern A glob pattern such as `**\/node_modules/**`
+ * @returns A regular expression matching the whole path
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let inGroup = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * A helper function that tests a path against a list of glob patterns.
+ *
+ * @param filePath A path using forward slashes, usually relative to the workspace folder
+ * @param patterns The glob patterns to test against
+ * @returns `true` if any of the patterns matches the path
+ */
+export function matchesGlob(filePath: string, patterns: string[]): boolean {
+  const normalizedPath = filePath.replace(/\\/g, "/");
+  return patterns.some((pattern) => globToRegExp(pattern).test(normalizedPath));
+}
+
+/**
+ * A helper function that tests a name against a glob pattern or a regular expression.
+ *
+ * @remarks Patterns wrapped in slashes, like `/^console\./`, are regular expressions. Anything
+ * else is a glob, where `*` doesn't match `/` but does match `.`, so `Logger.*` matches
+ * `Logger.log`.
+ *
+ * @param value The name to test, e.g. a called function's qualified name
+ * @param pattern A glob pattern or a `/regular expression/`
+ * @returns `true` if the pattern matches the whole name (a regular expression may match part of it)
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  if (pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/")) {
+    try {
+      return new RegExp(pattern.slice(1, -1)).test(value);
+    } catch (error) {
+      return false; // An invalid expression in the settings matches nothing
+    }
+  }
+  return globToRegExp(pattern).test(value);
+}
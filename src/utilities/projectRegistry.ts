@@ -0,0 +1,137 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Project, ts } from "ts-morph";
+import { Logger } from "./logger";
+
+const CONFIG_FILE_NAMES = ["tsconfig.json", "jsconfig.json"];
+
+interface ParsedConfig {
+  fileNames: Set<string>;
+  references: string[]; // Config paths of referenced projects
+}
+
+/**
+ * Keeps one ts-morph Project per tsconfig.json/jsconfig.json, so path aliases, `baseUrl`,
+ * `allowJs` and the other compiler options of the package a file belongs to are honoured.
+ * Files without any config share a default project.
+ */
+export class ProjectRegistry {
+  private projects = new Map<string, Project>(); // Keyed by config path, "" for the default project
+  private parsedConfigs = new Map<string, ParsedConfig | undefined>();
+
+  public getProjectForFile(filePath: string): Project {
+    const configPath = this.findConfigForFile(filePath);
+    const key = configPath || "";
+    let project = this.projects.get(key);
+    if (!project) {
+      project = this.createProject(configPath);
+      this.projects.set(key, project);
+    }
+    return project;
+  }
+
+  /** Returns the config used for a file, or undefined when it falls back to default options. */
+  public findConfigForFile(filePath: string): string | undefined {
+    const nearestConfig = this.findNearestConfig(filePath);
+    if (!nearestConfig) {
+      return undefined;
+    }
+    // A solution-style config (only `references`) doesn't include the file itself: use the
+    // referenced project that does.
+    return this.findIncludingConfig(nearestConfig, filePath, new Set()) || nearestConfig;
+  }
+
+  /** Drops every project, e.g. after a tsconfig.json changed. They are recreated on demand. */
+  public reset(): void {
+    this.projects.clear();
+    this.parsedConfigs.clear();
+    Logger.log("ProjectRegistry: Cleared cached projects.");
+  }
+
+  private createProject(configPath: string | undefined): Project {
+    if (!configPath) {
+      Logger.log(
+        "ProjectRegistry: No tsconfig.json/jsconfig.json found, using default compiler options."
+      );
+      return new Project({ compilerOptions: { allowJs: true } });
+    }
+    Logger.log(`ProjectRegistry: Loading project for ${configPath}`);
+    try {
+      return new Project({
+        tsConfigFilePath: configPath,
+        skipAddingFilesFromTsConfig: true, // Files are added as captures reach them
+        compilerOptions: path.basename(configPath) === "jsconfig.json" ? { allowJs: true } : {},
+      });
+    } catch (error) {
+      Logger.error(`ProjectRegistry: Could not load ${configPath}, using default options.`, error);
+      return new Project({ compilerOptions: { allowJs: true } });
+    }
+  }
+
+  private findNearestConfig(filePath: string): string | undefined {
+    let directory = path.dirname(filePath);
+    while (true) {
+      for (const configName of CONFIG_FILE_NAMES) {
+        const candidate = path.join(directory, configName);
+        if (fs.existsSync(candidate)) {
+          return candidate;
+        }
+      }
+      const parent = path.dirname(directory);
+      if (parent === directory) {
+        return undefined;
+      }
+      directory = parent;
+    }
+  }
+
+  private findIncludingConfig(
+    configPath: string,
+    filePath: string,
+    visited: Set<string>
+  ): string | undefined {
+    if (visited.has(configPath)) {
+      return undefined;
+    }
+    visited.add(configPath);
+    const parsed = this.parseConfig(configPath);
+    if (!parsed) {
+      return undefined;
+    }
+    if (parsed.fileNames.has(path.normalize(filePath))) {
+      return configPath;
+    }
+    for (const reference of parsed.references) {
+      const found = this.findIncludingConfig(reference, filePath, visited);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
+  private parseConfig(configPath: string): ParsedConfig | undefined {
+    if (this.parsedConfigs.has(configPath)) {
+      return this.parsedConfigs.get(configPath);
+    }
+    let parsed: ParsedConfig | undefined;
+    try {
+      const commandLine = ts.getParsedCommandLineOfConfigFile(configPath, undefined, {
+        ...ts.sys,
+        onUnRecoverableConfigFileDiagnostic: () => undefined,
+      });
+      if (commandLine) {
+        parsed = {
+          fileNames: new Set(commandLine.fileNames.map((fileName) => path.normalize(fileName))),
+          references: (commandLine.projectReferences || []).map((reference) =>
+            ts.resolveProjectReferencePath(reference)
+          ),
+        };
+      }
+    } catch (error) {
+      Logger.error(`ProjectRegistry: Could not parse ${configPath}`, error);
+    }
+    this.parsedConfigs.set(configPath, parsed);
+    return parsed;
+  }
+}
@@ -8,6 +8,7 @@ import {
   VSCodeOption,
   VSCodeTag,
   VSCodeProgressRing,
+  VSCodeCheckbox,
 } from "@vscode/webview-ui-toolkit/react";
 import {
   CapturedFlow,
@@ -17,6 +18,13 @@ import {
   FlowEdge,
   CodeReference,
 } from "../types/flowTypes";
+import {
+  GroupingLevel,
+  NodeGroup,
+  collapseGroups,
+  groupNodes,
+  withoutHiddenNodes,
+} from "../utilities/flowGraph";
 import mermaid from "mermaid"; //
 // @ts-ignore
 const vscode = acquireVsCodeApi(); // Standard way to get VS Code API in webview
@@ -32,17 +40,53 @@ mermaid.initialize({
   // logLeve: 'debug' // For debugging mermaid
 });
 
-const generateMermaidDiagram = (flow: CapturedFlow | null): string => {
+// The nodes and edges drawn for a flow, before grouping
+const getVisibleGraph = (
+  flow: CapturedFlow,
+  showHiddenCalls: boolean
+): { nodes: FlowNode[]; edges: FlowEdge[] } =>
+  // Calls matched by flowMaster.capture.ignore are kept in the flow but left out of the graph
+  showHiddenCalls
+    ? { nodes: flow.nodes, edges: flow.edges }
+    : withoutHiddenNodes(flow.nodes, flow.edges);
+
+// Sanitize label for Mermaid: replace special characters, escape quotes
+const sanitizeLabel = (label: string): string =>
+  label
+    .replace(/[#;"()]/g, "_")
+    .replace(/`/g, "'")
+    .replace(/</g, "#lt;") // Component labels like <App> would be read as HTML
+    .replace(/>/g, "#gt;");
+
+const generateMermaidDiagram = (
+  flow: CapturedFlow | null,
+  showHiddenCalls = false,
+  grouping: GroupingLevel = "none",
+  collapsedGroups: string[] = [] // Keys of the groups drawn as a single summary node
+): string => {
   if (!flow || !flow.nodes || flow.nodes.length === 0) {
     return "graph TD\n  A[No flow data to display. Select a flow from the sidebar or capture a new one.]";
   }
 
   let diagram = "graph TD\n"; // Top-Down graph
+  const visible = getVisibleGraph(flow, showHiddenCalls);
+  const groups = groupNodes(visible.nodes, grouping);
+  const { nodes, edges } = collapseGroups(
+    visible.nodes,
+    visible.edges,
+    groups.filter((group) => collapsedGroups.includes(group.key))
+  );
+  const expandedGroups = groups.filter((group) => !collapsedGroups.includes(group.key));
 
-  // Add node definitions
-  flow.nodes.forEach((node) => {
-    // Sanitize label for Mermaid: replace special characters, escape quotes
-    const sanitizedLabel = node.label.replace(/[#;"()]/g, "_").replace(/`/g, "'");
+  // Add node definitions, each expanded group in its own subgraph
+  const definitions = new Map<string, string>();
+  const clicks: string[] = [];
+  nodes.forEach((node) => {
+    // Consecutive calls to the same function are merged into one node when captured
+    const callCount: number = node.properties?.callCount || 1;
+    const label = callCount > 1 ? `${node.label} ×${callCount}` : node.label;
+    // Steps whose code was changed or removed since the flow was captured
+    const sanitizedLabel = sanitizeLabel(node.properties?.stale ? `⚠ ${label}` : label);
     let nodeShapeStart = "[";
     let nodeShapeEnd = "]";
     switch (node.type) {
@@ -55,26 +99,85 @@ const generateMermaidDiagram = (flow: CapturedFlow | null): string => {
         nodeShapeStart = "{";
         nodeShapeEnd = "}";
         break;
+      case "Loop":
+        nodeShapeStart = "{{";
+        nodeShapeEnd = "}}";
+        break;
+      case "Component":
+        nodeShapeStart = "[[";
+        nodeShapeEnd = "]]";
+        break;
+      case "Effect":
+        nodeShapeStart = ">";
+        nodeShapeEnd = "]";
+        break;
+      case "ErrorHandler":
+        nodeShapeStart = "[\\";
+        nodeShapeEnd = "/]";
+        break;
       case "ManualStep":
       case "Note":
         nodeShapeStart = "[/";
         nodeShapeEnd = "/]";
         break;
     }
+    if (node.properties?.collapsedGroup) {
+      nodeShapeStart = "([";
+      nodeShapeEnd = "])";
+    }
     // Add class for styling and click handling
-    diagram += `  ${node.id}${nodeShapeStart}"${sanitizedLabel}"${nodeShapeEnd};\n`;
+    definitions.set(node.id, `${node.id}${nodeShapeStart}"${sanitizedLabel}"${nodeShapeEnd};`);
     if (node.codeReference) {
       // Add click handler via Mermaid's API (or attach event listeners later)
-      diagram += `  click ${node.id} call handleNodeClick("${node.id}") "Go to code for ${sanitizedLabel}"\n`;
+      clicks.push(
+        `click ${node.id} call handleNodeClick("${node.id}") "Go to code for ${sanitizedLabel}"`
+      );
+    } else if (node.properties?.collapsedGroup) {
+      clicks.push(`click ${node.id} call handleNodeClick("${node.id}") "Expand ${sanitizedLabel}"`);
     }
   });
+  const groupedNodeIds = new Set(expandedGroups.flatMap((group) => group.nodeIds));
+  // Without grouping, the nodes a loop repeats are drawn in a subgraph under the loop's node
+  const loopIds = new Set(nodes.filter((node) => node.type === "Loop").map((node) => node.id));
+  const getLoop = (node: FlowNode): string | undefined =>
+    grouping === "none" && loopIds.has(node.properties?.loop) ? node.properties!.loop : undefined;
+  const addNodes = (loopId: string | undefined, indent: string) =>
+    nodes
+      .filter((node) => !groupedNodeIds.has(node.id) && getLoop(node) === loopId)
+      .forEach((node) => {
+        diagram += `${indent}${definitions.get(node.id)}\n`;
+        if (node.type === "Loop" && nodes.some((other) => getLoop(other) === node.id)) {
+          diagram += `${indent}subgraph loop_${node.id}["each iteration"]\n`;
+          addNodes(node.id, `${indent}  `);
+          diagram += `${indent}end\n`;
+        }
+      });
+  addNodes(undefined, "  ");
+  expandedGroups.forEach((group) => {
+    diagram += `  subgraph ${group.id}["${sanitizeLabel(group.label)}"]\n`;
+    group.nodeIds.forEach((nodeId) => (diagram += `    ${definitions.get(nodeId)}\n`));
+    diagram += "  end\n";
+  });
+  clicks.forEach((click) => (diagram += `  ${click}\n`));
 
   // Add edge definitions
-  flow.edges.forEach((edge) => {
+  edges.forEach((edge) => {
     const edgeLabel = edge.label ? `|"${edge.label.replace(/[#;"()]/g, "_")}"|` : "";
-    diagram += `  ${edge.from} -->${edgeLabel} ${edge.to};\n`;
+    let arrow = "-->";
+    if (edge.type === "DataFlow") {
+      arrow = "-.->"; // Dotted: a value, not control
+    } else if (edge.type === "Error") {
+      arrow = "--x"; // Crossed: control only gets there when something throws
+    }
+    diagram += `  ${edge.from} ${arrow}${edgeLabel} ${edge.to};\n`;
   });
 
+  const staleIds = nodes.filter((node) => node.properties?.stale).map((node) => node.id);
+  if (staleIds.length > 0) {
+    diagram += "  classDef stale stroke-dasharray:4 3,opacity:0.6;\n";
+    diagram += `  class ${staleIds.join(",")} stale;\n`;
+  }
+
   // Styling (optional, can be done via CSS too if mermaid supports classes well)
   // flow.nodes.forEach(node => {
   //   if (node.type === 'EntryPoint') diagram += `  style ${node.id} fill:#f9f,stroke:#333,stroke-width:2px\n`;
@@ -88,14 +191,39 @@ const FlowGraphApp: React.FC = () => {
   const [mermaidDiagram, setMermaidDiagram] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [showHiddenCalls, setShowHiddenCalls] = useState<boolean>(false);
+  const [grouping, setGrouping] = useState<GroupingLevel>("none");
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
 
   // For metadata editing
   const [editName, setEditName] = useState("");
   const [editDescription, setEditDescription] = useState("");
   const [editCategory, setEditCategory] = useState<CapturedFlow["category"]>("General");
 
+  const groups: NodeGroup[] = useMemo(
+    () =>
+      currentFlow ? groupNodes(getVisibleGraph(currentFlow, showHiddenCalls).nodes, grouping) : [],
+    [currentFlow, showHiddenCalls, grouping]
+  );
+
+  // Groups start expanded whenever another flow or grouping level is shown
+  useEffect(() => setCollapsedGroups([]), [currentFlow?.id, grouping]);
+
+  const toggleGroup = useCallback(
+    (key: string) =>
+      setCollapsedGroups((collapsed) =>
+        collapsed.includes(key) ? collapsed.filter((other) => other !== key) : [...collapsed, key]
+      ),
+    []
+  );
+
   const handleNodeClick = useCallback(
     (nodeId: string) => {
+      const collapsedGroup = groups.find((group) => group.id === nodeId);
+      if (collapsedGroup) {
+        toggleGroup(collapsedGroup.key); // Summary nodes expand their group again
+        return;
+      }
       if (currentFlow) {
         const node = currentFlow.nodes.find((n) => n.id === nodeId);
         if (node && node.codeReference) {
@@ -104,12 +232,13 @@ const FlowGraphApp: React.FC = () => {
             payload: {
               filePath: node.codeReference.filePath,
               range: node.codeReference.range,
+              anchor: node.codeReference.anchor,
             },
           } as WebviewToExtensionMessage);
         }
       }
     },
-    [currentFlow]
+    [currentFlow, groups, toggleGroup]
   );
 
   // Make handleNodeClick globally available for Mermaid
@@ -189,7 +318,12 @@ const FlowGraphApp: React.FC = () => {
                 };
                 img.src = url;
               } else if (message.command === "export-markdown") {
-                const md = `\`\`\`mermaid\n${generateMermaidDiagram(currentFlow)}\n\`\`\``;
+                const md = `\`\`\`mermaid\n${generateMermaidDiagram(
+                  currentFlow,
+                  showHiddenCalls,
+                  grouping,
+                  collapsedGroups
+                )}\n\`\`\``;
                 vscode.postMessage({
                   command: `${message.command}-result`,
                   payload: { requestId: message.payload.requestId, data: md },
@@ -222,17 +356,17 @@ const FlowGraphApp: React.FC = () => {
     return () => {
       window.removeEventListener("message", messageHandler);
     };
-  }, [currentFlow]); // Add currentFlow to dependencies if messageHandler uses it directly for export
+  }, [currentFlow, showHiddenCalls, grouping, collapsedGroups]); // Add currentFlow to dependencies if messageHandler uses it directly for export
 
   useEffect(() => {
     if (currentFlow) {
-      const diag = generateMermaidDiagram(currentFlow);
+      const diag = generateMermaidDiagram(currentFlow, showHiddenCalls, grouping, collapsedGroups);
       setMermaidDiagram(diag);
       // console.log("Generated Mermaid Diagram:", diag);
     } else {
       setMermaidDiagram(generateMermaidDiagram(null)); // Show default message
     }
-  }, [currentFlow]);
+  }, [currentFlow, showHiddenCalls, grouping, collapsedGroups]);
 
   useEffect(() => {
     if (mermaidDiagram) {
@@ -272,6 +406,15 @@ const FlowGraphApp: React.FC = () => {
     }
   }, [mermaidDiagram]);
 
+  const hiddenCallCount = useMemo(
+    () => (currentFlow ? currentFlow.nodes.filter((node) => node.properties?.hidden).length : 0),
+    [currentFlow]
+  );
+  const staleStepCount = useMemo(
+    () => (currentFlow ? currentFlow.nodes.filter((node) => node.properties?.stale).length : 0),
+    [currentFlow]
+  );
+
   const handleSaveMetadata = () => {
     if (currentFlow) {
       const updatedFlow: CapturedFlow = {
@@ -350,6 +493,51 @@ const FlowGraphApp: React.FC = () => {
           <VSCodeButton onClick={handleSaveMetadata}>Save Metadata</VSCodeButton>
         </div>
       )}
+      {staleStepCount > 0 && (
+        <div style={{ color: "var(--vscode-editorWarning-foreground)", marginBottom: "0.5rem" }}>
+          ⚠ The code of {staleStepCount} steps was changed or removed since the flow was captured.
+        </div>
+      )}
+      {hiddenCallCount > 0 && (
+        <VSCodeCheckbox
+          checked={showHiddenCalls}
+          onChange={(e: any) => setShowHiddenCalls(e.target.checked)}
+          style={{ marginBottom: "0.5rem" }}>
+          Show hidden calls ({hiddenCallCount})
+        </VSCodeCheckbox>
+      )}
+      {currentFlow && (
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            alignItems: "center",
+            gap: "0.5rem",
+            marginBottom: "0.5rem",
+          }}>
+          <span>Group by</span>
+          <VSCodeDropdown
+            value={grouping}
+            onInput={(e: any) => setGrouping(e.target.value as GroupingLevel)}>
+            <VSCodeOption value="none">None</VSCodeOption>
+            <VSCodeOption value="file">File</VSCodeOption>
+            <VSCodeOption value="class">Class</VSCodeOption>
+            <VSCodeOption value="folder">Folder</VSCodeOption>
+          </VSCodeDropdown>
+          {groups.map((group) => (
+            <VSCodeCheckbox
+              key={group.key}
+              checked={collapsedGroups.includes(group.key)}
+              onChange={(e: any) => {
+                if (e.target.checked !== collapsedGroups.includes(group.key)) {
+                  toggleGroup(group.key);
+                }
+              }}>
+              Collapse {group.label}
+            </VSCodeCheckbox>
+          ))}
+        </div>
+      )}
       <div
         id="mermaid-graph-container"
         style={{